@@ -12,16 +12,9 @@ async function main() {
   const creds = generateCredentialsFromAddress(walletAddress);
   console.log('Username:', creds.username);
   
-  // Try to login, create if doesn't exist
-  let account;
-  try {
-    account = await client.login(creds.username, creds.password);
-    console.log('✅ Logged in');
-  } catch (error) {
-    console.log('Account does not exist, creating...');
-    account = await client.createAccount(creds.username, creds.password);
-    console.log('✅ Account created');
-  }
+  // Log in, creating the account on first use
+  const { account, created } = await client.loginOrCreate(creds.username, creds.password);
+  console.log(created ? '✅ Account created' : '✅ Logged in');
   
   // Now use account for uploads/downloads
   const balance = await client.getBalance(account);
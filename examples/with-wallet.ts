@@ -22,21 +22,11 @@ async function main() {
   console.log('Generated Username:', creds.username);
   console.log('Generated Password:', creds.password.slice(0, 10) + '...');
 
-  // Try to login, create if doesn't exist
-  let account;
-  try {
-    console.log('\nAttempting login...');
-    account = await client.login(creds.username, creds.password);
-    console.log('✓ Logged into existing account');
-  } catch (error: any) {
-    if (error.status === 401) {
-      console.log('Account doesn\'t exist, creating...');
-      account = await client.createAccount(creds.username, creds.password);
-      console.log('✓ Created new account');
-    } else {
-      throw error;
-    }
-  }
+  // Log in, creating the account on first use
+  console.log('\nLogging in...');
+  const login = await client.loginOrCreate(creds.username, creds.password);
+  let account = login.account;
+  console.log(login.created ? '✓ Created new account' : '✓ Logged into existing account');
 
   // Pattern 3: Save to localStorage (optional)
   console.log('\n=== Pattern 3: With localStorage ===\n');
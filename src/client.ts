@@ -6,67 +6,280 @@
  * Developer provides account credentials explicitly for each operation.
  */
 
-import axios, { AxiosInstance } from 'axios';
+import { blake3 } from '@noble/hashes/blake3';
 import type {
   PipeConfig,
+  PipeOperation,
+  RetryConfig,
+  RequestOptions,
   PipeAccount,
   Balance,
   UploadOptions,
+  DownloadOptions,
+  StreamSource,
+  StreamUploadOptions,
+  ResumableUploadOptions,
+  UploadCheckpoint,
+  DownloadStream,
   UploadResult,
+  UploadTier,
   FileRecord,
   PublicLink,
   PublicLinkOptions,
+  DeleteOptions,
+  WalletCredentials,
+  CredentialMigrationResult,
+  ChangePasswordOptions,
+  LoginOrCreateResult,
+  SessionState,
+  WaitForDepositOptions,
+  NetworkProfile,
+  NetworkFeature,
+  SelectRegionOptions,
+  RegionProbe,
+  RegionSelection,
+  TierPricing,
+  UploadCostOptions,
+  UploadCostEstimate,
+  UsageOptions,
+  TokenUsage,
 } from './types.js';
-import { PipeApiError, PipeValidationError, PipeErrorCode } from './errors.js';
+import {
+  PipeApiError,
+  PipeValidationError,
+  PipeSessionError,
+  PipeInsufficientBalanceError,
+  PipeErrorCode,
+} from './errors.js';
 import { assertValidUsername, assertValidPassword, assertValidAmount } from './validation.js';
+import { iterateChunks, digestChunks, concatChunks, toDownloadStream } from './utils/stream.js';
+import { unwrapMultipart, unwrapMultipartStream } from './utils/multipart.js';
+import { SessionManager, DEFAULT_REFRESH_MARGIN, JWT_ONLY_APP_KEY, appKeyOf } from './session.js';
+import { resolveNetwork, hasNetworkFeature } from './networks.js';
+import { HttpClient } from './transport/http.js';
+import { AxiosTransport } from './transport/axios.js';
+import { FetchTransport } from './transport/fetch.js';
+import { withRetry } from './utils/retry.js';
+import type { RetryCallOptions } from './utils/retry.js';
+import { abortableDelay, isAbortError, throwIfAborted } from './utils/abort.js';
+import { createProgressReporter } from './utils/progress.js';
+import {
+  DEFAULT_CHUNK_SIZE,
+  MANIFEST_PREFIX_LENGTH,
+  chunkFileName,
+  hashChunk,
+  encodeChunkManifest,
+  isChunkManifest,
+  parseChunkManifest,
+} from './utils/chunked.js';
+import type { ChunkManifest } from './utils/chunked.js';
+import {
+  metadataFileName,
+  isMetadataFileName,
+  encodeMetadataSidecar,
+  decodeMetadataSidecar,
+} from './utils/metadata.js';
+
+/**
+ * Upload endpoint for each tier
+ */
+const UPLOAD_ENDPOINTS: Record<UploadTier, string> = {
+  normal: '/upload',
+  priority: '/priorityUpload',
+};
+
+/**
+ * Tier prices are quoted per GB of 2^30 bytes
+ */
+const BYTES_PER_GB = 1024 ** 3;
 
 export class PipeClient {
+  private network: NetworkProfile;
   private baseUrl: string;
-  private api: AxiosInstance;
+  /** PipeConfig.baseUrl, which takes precedence over the network's regions */
+  private configuredBaseUrl?: string;
+  private api: HttpClient;
+  private session: SessionManager;
+  private retryConfig?: RetryConfig;
 
   constructor(config: PipeConfig = {}) {
-    this.baseUrl = config.baseUrl || 'https://us-west-01-firestarter.pipenetwork.com';
-
-    this.api = axios.create({
-      baseURL: this.baseUrl,
+    this.network = resolveNetwork(config.network);
+    this.configuredBaseUrl = config.baseUrl;
+    this.baseUrl = config.baseUrl || this.network.baseUrl;
+    this.retryConfig = config.retry;
+
+    // Every endpoint (including uploads and downloads) goes through this transport
+    const transport =
+      typeof config.transport === 'object'
+        ? config.transport
+        : config.transport === 'fetch'
+          ? new FetchTransport()
+          : new AxiosTransport();
+
+    this.api = new HttpClient(transport, {
+      baseUrl: this.baseUrl,
       timeout: config.timeout || 30000,
       headers: {
         'User-Agent': 'FirestarterSDK/2.0.0',
+        ...config.headers,
       },
+      middleware: config.middleware || [],
+    });
+
+    this.session = new SessionManager(this.api, {
+      retry: config.retry,
+      refreshMargin: config.tokenRefreshMargin ?? DEFAULT_REFRESH_MARGIN,
+      accountStorage: config.accountStorage,
+      onSessionUpdated: config.onSessionUpdated,
+      onPasswordFallback: config.onPasswordFallback,
+      onAuthFailed: config.onAuthFailed,
     });
+  }
+
+  /**
+   * The active network profile
+   */
+  getNetwork(): NetworkProfile {
+    return this.network;
+  }
+
+  /**
+   * The API endpoint requests are sent to (changed by selectRegion)
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Whether the active network supports an optional feature
+   */
+  hasFeature(feature: NetworkFeature): boolean {
+    return hasNetworkFeature(this.network, feature);
+  }
 
-    // Simple response interceptor for error handling
-    this.api.interceptors.response.use(
-      (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          console.warn('Pipe API authentication failed - token may be expired');
+  /**
+   * Probe regional endpoints and switch to the fastest healthy one
+   *
+   * Every endpoint is requested in parallel; any response below 500 counts as
+   * healthy. Subsequent requests (including uploads and downloads) go to the
+   * selected endpoint.
+   *
+   * @param options - Endpoints to probe (default: the network's regions, or only
+   *   PipeConfig.baseUrl if one was set), probe path, per-probe timeout and abort signal
+   * @returns The selected endpoint and every probe result
+   * @throws PipeApiError with code NETWORK_ERROR if no endpoint is healthy
+   *
+   * @example
+   * ```ts
+   * const client = new PipeClient({
+   *   network: {
+   *     baseUrl: US_ENDPOINT,
+   *     tokenMint: NETWORKS.mainnet.tokenMint,
+   *     regions: [US_ENDPOINT, EU_ENDPOINT],
+   *   },
+   * });
+   * const { url } = await client.selectRegion();
+   * ```
+   */
+  async selectRegion(options: SelectRegionOptions = {}): Promise<RegionSelection> {
+    const { signal, path = '/', timeout = 5000 } = options;
+    const endpoints =
+      options.endpoints ||
+      (this.configuredBaseUrl ? [this.configuredBaseUrl] : this.network.regions) ||
+      [this.network.baseUrl];
+    if (endpoints.length === 0) {
+      throw new PipeValidationError('No endpoints to probe');
+    }
+
+    const probes = await Promise.all(
+      endpoints.map(async (endpoint): Promise<RegionProbe> => {
+        const url = endpoint.replace(/\/+$/, '');
+        const started = Date.now();
+        try {
+          // A relative endpoint (e.g. a same-origin proxy) can only be the base URL,
+          // which the transport already prefixes
+          const probeUrl = /^https?:\/\//.test(url) ? `${url}${path}` : path;
+          await this.api.get(probeUrl, {
+            responseType: 'arraybuffer',
+            timeout,
+            signal,
+            context: { operation: 'selectRegion' },
+          });
+          return { url, healthy: true, latency: Date.now() - started };
+        } catch (error: any) {
+          if (isAbortError(error) && signal?.aborted) {
+            throw PipeApiError.aborted();
+          }
+          const status = error.response?.status;
+          return status !== undefined
+            ? { url, healthy: status < 500, latency: Date.now() - started, error: error.message }
+            : { url, healthy: false, error: error.message };
         }
-        return Promise.reject(error);
-      }
+      })
+    );
+
+    probes.sort((a, b) =>
+      a.healthy !== b.healthy
+        ? Number(b.healthy) - Number(a.healthy)
+        : (a.latency ?? Infinity) - (b.latency ?? Infinity)
     );
+    if (!probes[0].healthy) {
+      throw new PipeApiError('No healthy endpoint found', undefined, PipeErrorCode.NETWORK_ERROR);
+    }
+
+    this.baseUrl = probes[0].url;
+    this.api.setBaseUrl(this.baseUrl);
+    return { url: this.baseUrl, probes };
   }
 
   /**
-   * Build URL with query params, handling both absolute and relative base URLs
+   * Throw if the active network lacks a feature
    */
-  private buildUrlWithParams(path: string, params: Record<string, string>): string {
-    const fullPath = `${this.baseUrl}${path}`;
+  private requireFeature(feature: NetworkFeature): void {
+    if (!this.hasFeature(feature)) {
+      throw new PipeApiError(
+        `${feature} is not available on ${this.network.name}`,
+        undefined,
+        PipeErrorCode.FEATURE_UNAVAILABLE
+      );
+    }
+  }
 
-    // Check if baseUrl is absolute or relative
-    if (this.baseUrl.startsWith('http://') || this.baseUrl.startsWith('https://')) {
-      const url = new URL(fullPath);
-      Object.entries(params).forEach(([key, value]) => {
-        url.searchParams.append(key, value);
-      });
-      return url.toString();
-    } else {
-      // Relative URL - build query string manually
-      const queryString = Object.entries(params)
-        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
-        .join('&');
-      return queryString ? `${fullPath}?${queryString}` : fullPath;
+  /**
+   * Upload tier for the priority option
+   */
+  private uploadTier(priority?: boolean): UploadTier {
+    if (priority) {
+      this.requireFeature('priorityUpload');
     }
+    return priority ? 'priority' : 'normal';
+  }
+
+  /**
+   * Run a request with the configured retry policy for the operation
+   *
+   * @param operation - Operation name (selects per-method overrides)
+   * @param request - The HTTP call to perform
+   * @param options - Idempotency override and abort signal
+   */
+  private async withRetry<T>(
+    operation: PipeOperation,
+    request: () => Promise<T>,
+    options: RetryCallOptions = {}
+  ): Promise<T> {
+    throwIfAborted(options.signal);
+    return withRetry(operation, request, this.retryConfig, options);
+  }
+
+  /**
+   * Build a path with query params
+   *
+   * The base URL is left out: HttpClient prefixes it, for absolute and
+   * relative (proxied) base URLs alike.
+   */
+  private buildUrlWithParams(path: string, params: Record<string, string>): string {
+    const queryString = new URLSearchParams(params).toString();
+    return queryString ? `${path}?${queryString}` : path;
   }
 
   /**
@@ -74,16 +287,32 @@ export class PipeClient {
    *
    * @param username - Username (must be 8+ characters)
    * @param password - Password (must be 8+ characters)
+   * @param options - Optional request options (abort signal)
    * @returns Account credentials needed for all operations
    */
-  async createAccount(username: string, password: string): Promise<PipeAccount> {
+  async createAccount(
+    username: string,
+    password: string,
+    options: RequestOptions = {}
+  ): Promise<PipeAccount> {
+    const { signal } = options;
+
     // Validate inputs
     assertValidUsername(username);
     assertValidPassword(password);
 
     try {
       // Step 1: Create user account
-      const createResponse = await this.api.post('/users', { username });
+      const createResponse = await this.withRetry(
+        'createAccount',
+        () =>
+          this.api.post(
+            '/users',
+            { username },
+            { signal, context: { operation: 'createAccount', username } }
+          ),
+        { signal }
+      );
 
       if (createResponse.status !== 200) {
         throw new PipeApiError('Failed to create user account', createResponse.status);
@@ -92,11 +321,20 @@ export class PipeClient {
       const userData = createResponse.data;
 
       // Step 2: Set password (also returns JWT tokens)
-      const passwordResponse = await this.api.post('/auth/set-password', {
-        user_id: userData.user_id,
-        user_app_key: userData.user_app_key,
-        new_password: password,
-      });
+      const passwordResponse = await this.withRetry(
+        'createAccount',
+        () =>
+          this.api.post(
+            '/auth/set-password',
+            {
+              user_id: userData.user_id,
+              user_app_key: userData.user_app_key,
+              new_password: password,
+            },
+            { signal, context: { operation: 'createAccount', username } }
+          ),
+        { idempotent: true, signal }
+      );
 
       if (passwordResponse.status !== 200) {
         throw new PipeApiError('Failed to set password', passwordResponse.status);
@@ -114,6 +352,9 @@ export class PipeClient {
         tokenExpiry: Date.now() + tokens.expires_in * 1000,
       };
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
       if (error.response?.status === 409) {
         throw new PipeApiError(
           'Username already exists. Please choose a different username.',
@@ -134,19 +375,32 @@ export class PipeClient {
    *
    * @param username - Account username
    * @param password - Account password
+   * @param options - Optional request options (abort signal)
    * @returns Account credentials needed for all operations
    */
-  async login(username: string, password: string): Promise<PipeAccount> {
+  async login(
+    username: string,
+    password: string,
+    options: RequestOptions = {}
+  ): Promise<PipeAccount> {
     if (!username || !password) {
       throw new PipeValidationError('Username and password required');
     }
 
+    const { signal } = options;
+
     try {
       // Login to get JWT tokens
-      const loginResponse = await this.api.post('/auth/login', {
-        username,
-        password,
-      });
+      const loginResponse = await this.withRetry(
+        'login',
+        () =>
+          this.api.post(
+            '/auth/login',
+            { username, password },
+            { signal, context: { operation: 'login', username } }
+          ),
+        { signal }
+      );
 
       if (loginResponse.status !== 200) {
         throw new PipeApiError('Login failed', loginResponse.status);
@@ -160,20 +414,30 @@ export class PipeClient {
       let actualUserAppKey = tokens.access_token; // Default to JWT token
 
       try {
-        const walletResponse = await this.api.post(
-          '/checkWallet',
-          {},
-          {
-            headers: {
-              Authorization: `Bearer ${tokens.access_token}`,
-            },
-          }
+        const walletResponse = await this.withRetry(
+          'login',
+          () =>
+            this.api.post(
+              '/checkWallet',
+              {},
+              {
+                headers: {
+                  Authorization: `Bearer ${tokens.access_token}`,
+                },
+                signal,
+                context: { operation: 'login', username },
+              }
+            ),
+          { signal }
         );
 
         if (walletResponse.status === 200 && walletResponse.data.user_id) {
           actualUserId = walletResponse.data.user_id;
         }
       } catch (checkWalletError) {
+        if (isAbortError(checkWalletError)) {
+          throw checkWalletError;
+        }
         // checkWallet failed, but we can still use JWT auth
         console.warn('checkWallet failed, using JWT token for auth');
       }
@@ -188,6 +452,9 @@ export class PipeClient {
         tokenExpiry: Date.now() + tokens.expires_in * 1000,
       };
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
       if (error.response?.status === 401) {
         throw new PipeApiError(
           'Invalid username or password',
@@ -195,6 +462,9 @@ export class PipeClient {
           PipeErrorCode.INVALID_CREDENTIALS
         );
       }
+      if (error.response?.status === 404) {
+        throw new PipeApiError('Account not found', 404, PipeErrorCode.ACCOUNT_NOT_FOUND);
+      }
       throw new PipeApiError(
         `Login failed: ${error.message}`,
         error.response?.status,
@@ -203,37 +473,276 @@ export class PipeClient {
     }
   }
 
+  /**
+   * Log in, creating the account first if the username does not exist yet
+   *
+   * A rejected login only leads to account creation if the username is free,
+   * so a wrong password for an existing account fails with
+   * INVALID_CREDENTIALS instead of creating anything. If another client
+   * creates the same account concurrently, this logs in to it instead.
+   *
+   * @param username - Account username
+   * @param password - Account password
+   * @param options - Optional request options (abort signal)
+   * @returns The account and whether it was created by this call
+   * @throws PipeValidationError if a new account's password doesn't meet the strict password rules
+   *
+   * @example
+   * ```ts
+   * const creds = generateCredentialsFromAddress(walletAddress);
+   * const { account, created } = await client.loginOrCreate(creds.username, creds.password);
+   * ```
+   */
+  async loginOrCreate(
+    username: string,
+    password: string,
+    options: RequestOptions = {}
+  ): Promise<LoginOrCreateResult> {
+    try {
+      return { account: await this.login(username, password, options), created: false };
+    } catch (error: any) {
+      if (!isUnknownAccountError(error)) {
+        throw error;
+      }
+    }
+
+    // Strict: /auth/set-password accepts weak passwords that login then rejects,
+    // which would create an account no later call can log in to
+    assertValidPassword(password, true);
+
+    try {
+      return { account: await this.createAccount(username, password, options), created: true };
+    } catch (error: any) {
+      if (error.code !== PipeErrorCode.USERNAME_EXISTS) {
+        throw error;
+      }
+    }
+
+    // The username is taken: either created concurrently, or the password is wrong
+    try {
+      return { account: await this.login(username, password, options), created: false };
+    } catch (error: any) {
+      if (isUnknownAccountError(error)) {
+        throw new PipeApiError(
+          'Account exists but the password is incorrect',
+          401,
+          PipeErrorCode.INVALID_CREDENTIALS
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Change an account's password
+   *
+   * The account's password and tokens are updated in place, and the change is
+   * reported through onSessionUpdated / accountStorage like a token refresh.
+   *
+   * @param account - Account credentials
+   * @param newPassword - The new password (must pass the login strength rules)
+   * @param options - Optional request options (abort signal, `strict: false` skips strength rules)
+   * @returns The updated account
+   *
+   * @example
+   * ```ts
+   * await client.changePassword(account, 'N3w-Secret!');
+   * ```
+   */
+  async changePassword(
+    account: PipeAccount,
+    newPassword: string,
+    options: ChangePasswordOptions = {}
+  ): Promise<PipeAccount> {
+    assertValidPassword(newPassword, options.strict ?? true);
+    if (newPassword === account.password) {
+      throw new PipeValidationError('New password must differ from the current password');
+    }
+
+    await this.setPassword(account, newPassword, options.signal);
+    return account;
+  }
+
+  /**
+   * Stop using the account's userAppKey on this client
+   *
+   * Local only: the key is removed from the account object, so from then on
+   * only the tokens (or a re-login with the password) authenticate it. The
+   * API has no endpoint to rotate or revoke a user app key, so the key stays
+   * valid on the server - any copy saved elsewhere (e.g. plaintext
+   * localStorage from older versions) must be cleared separately.
+   *
+   * Accounts without tokens (e.g. restored from older storage) log in with
+   * their password first.
+   *
+   * @param account - Account credentials (updated in place)
+   * @param options - Optional request options (abort signal)
+   * @returns The updated account
+   * @throws PipeValidationError if the account has neither tokens nor a password
+   */
+  async forgetAppKey(
+    account: PipeAccount,
+    options: RequestOptions = {}
+  ): Promise<PipeAccount> {
+    if (account.userAppKey === JWT_ONLY_APP_KEY) {
+      return account;
+    }
+
+    const headers = await this.getAuthHeaders(account, options.signal);
+    if (!headers.Authorization) {
+      throw new PipeValidationError('Tokens or a password are required to switch to token auth');
+    }
+
+    account.userAppKey = JWT_ONLY_APP_KEY;
+    await this.session.notifyUpdated(account, 'legacy');
+    return account;
+  }
+
+  /**
+   * Log out: clear the account's tokens and password, and the configured accountStorage
+   *
+   * Local only; the account object is updated in place and can no longer
+   * authenticate. Requests made with it afterwards throw PipeSessionError.
+   *
+   * @param account - Account to log out
+   */
+  async logout(account: PipeAccount): Promise<void> {
+    await this.session.logout(account);
+  }
+
+  /**
+   * Describe how the account can currently authenticate (no requests are made)
+   *
+   * @param account - Account credentials
+   * @returns 'active', 'expiring', 'expired' (renewable), 'legacy' or 'none'
+   */
+  getSessionState(account: PipeAccount): SessionState {
+    return this.session.getState(account);
+  }
+
+  /**
+   * Whether the account has an unexpired access token
+   *
+   * An expired session may still be renewed automatically; check
+   * getSessionState for 'none' to know whether a new login is required.
+   *
+   * @param account - Account credentials
+   */
+  isSessionValid(account: PipeAccount): boolean {
+    const state = this.getSessionState(account);
+    return state === 'active' || state === 'expiring';
+  }
+
+  /**
+   * Move an account to new credentials
+   *
+   * Logs in with `from` and changes the password to `to.password`. Meant for
+   * upgrading wallet-derived credentials (e.g. v1 to v2, see deriveCredentials),
+   * and safe to call on every sign-in: if `to` already works, nothing changes.
+   *
+   * @param from - Current credentials
+   * @param to - New credentials (same username)
+   * @param options - Optional request options (abort signal)
+   * @returns The account, logged in with the new credentials
+   * @throws PipeValidationError if `to.password` doesn't meet the strict password rules
+   *
+   * @example
+   * ```ts
+   * const v1 = await deriveCredentials({ walletAddress, version: 1 });
+   * const v2 = await deriveCredentials({ walletAddress, version: 2, pepper: APP_PEPPER });
+   * const { account, migrated } = await client.migrateCredentials(v1, v2);
+   * ```
+   */
+  async migrateCredentials(
+    from: WalletCredentials,
+    to: WalletCredentials,
+    options: RequestOptions = {}
+  ): Promise<CredentialMigrationResult> {
+    if (from.username !== to.username) {
+      throw new PipeValidationError('Credentials must share the same username');
+    }
+    // Strict: /auth/set-password accepts weak passwords that login then rejects
+    assertValidPassword(to.password, true);
+
+    // Already migrated
+    try {
+      const account = await this.login(to.username, to.password, options);
+      return { account, migrated: false };
+    } catch (error: any) {
+      if (error.code !== PipeErrorCode.INVALID_CREDENTIALS) {
+        throw error;
+      }
+    }
+
+    const account = await this.login(from.username, from.password, options);
+    await this.setPassword(account, to.password, options.signal);
+    return { account, migrated: true };
+  }
+
   /**
    * Get balance (SOL and PIPE tokens) for an account
    *
    * @param account - Account credentials
+   * @param options - Optional request options (abort signal)
    * @returns Balance information
    */
-  async getBalance(account: PipeAccount): Promise<Balance> {
-    const authHeaders = await this.getAuthHeaders(account);
+  async getBalance(account: PipeAccount, options: RequestOptions = {}): Promise<Balance> {
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
     try {
       // Get SOL balance
-      const walletResponse = await this.api.post(
-        '/checkWallet',
-        {},
-        { headers: authHeaders }
+      const walletResponse = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'getBalance',
+          () =>
+            this.api.post(
+              '/checkWallet',
+              {},
+              {
+                headers,
+                signal,
+                context: { operation: 'getBalance', username: account.username },
+              }
+            ),
+          { signal }
+        )
       );
 
       // Get PIPE token balance
+      // (networks without a token mint have no PIPE balance to check)
       let pipeBalance = 0;
-      try {
-        const tokenResponse = await this.api.post(
-          '/checkCustomToken',
-          {
-            token_mint: '35mhJor7qTD212YXdLkB8sRzTbaYRXmTzHTCFSDP5voJ', // PIPE token
-          },
-          { headers: authHeaders }
-        );
-        pipeBalance = tokenResponse.data.ui_amount || 0;
-      } catch (error) {
-        // PIPE balance check may fail if no tokens, that's ok
-        console.warn('PIPE balance check failed, defaulting to 0');
+      const { tokenMint } = this.network;
+      if (tokenMint) {
+        // Read again: the first request may have refreshed the tokens
+        const tokenAuthHeaders = await this.getAuthHeaders(account, signal);
+        try {
+          const tokenResponse = await this.withAuth(account, tokenAuthHeaders, signal, (headers) =>
+            this.withRetry(
+              'getBalance',
+              () =>
+                this.api.post(
+                  '/checkCustomToken',
+                  {
+                    token_mint: tokenMint,
+                  },
+                  {
+                    headers,
+                    signal,
+                    context: { operation: 'getBalance', username: account.username },
+                  }
+                ),
+              { signal }
+            )
+          );
+          pipeBalance = tokenResponse.data.ui_amount || 0;
+        } catch (error) {
+          if (isAbortError(error) || error instanceof PipeSessionError) {
+            throw error;
+          }
+          // PIPE balance check may fail if no tokens, that's ok
+          console.warn('PIPE balance check failed, defaulting to 0');
+        }
       }
 
       return {
@@ -242,6 +751,12 @@ export class PipeClient {
         publicKey: walletResponse.data.public_key || '',
       };
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
       throw new PipeApiError(
         `Failed to get balance: ${error.message}`,
         error.response?.status
@@ -249,6 +764,293 @@ export class PipeClient {
     }
   }
 
+  /**
+   * Ask the server to pick up PIPE sent to the account's deposit address now
+   *
+   * Deposits are also synced automatically about every 30 seconds.
+   *
+   * @param account - Account credentials
+   * @param options - Optional request options (abort signal)
+   */
+  async syncDeposits(account: PipeAccount, options: RequestOptions = {}): Promise<void> {
+    this.requireFeature('deposits');
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
+
+    try {
+      await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'syncDeposits',
+          () =>
+            this.api.post(
+              '/syncDeposits',
+              {},
+              {
+                headers,
+                signal,
+                context: { operation: 'syncDeposits', username: account.username },
+              }
+            ),
+          { signal }
+        )
+      );
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
+      throw new PipeApiError(
+        `Failed to sync deposits: ${error.message}`,
+        error.response?.status
+      );
+    }
+  }
+
+  /**
+   * Wait until PIPE sent to the deposit address shows up in the balance
+   *
+   * Syncs deposits and checks the balance every `pollInterval` ms.
+   *
+   * @param account - Account credentials
+   * @param options - Target balance, timeout, poll interval and abort signal
+   * @returns The balance once it reaches the target
+   * @throws PipeApiError with code TIMEOUT if the deposit doesn't arrive in time
+   *
+   * @example
+   * ```ts
+   * const { publicKey } = await client.getBalance(account);
+   * showDepositAddress(publicKey);
+   *
+   * const balance = await client.waitForDeposit(account, { minPipe: estimate.costPipe });
+   * await client.uploadFile(account, file, 'example.txt');
+   * ```
+   */
+  async waitForDeposit(
+    account: PipeAccount,
+    options: WaitForDepositOptions = {}
+  ): Promise<Balance> {
+    const { signal, timeout = 300_000, pollInterval = 10_000 } = options;
+    this.requireFeature('deposits');
+    if (options.minPipe !== undefined) {
+      assertValidAmount(options.minPipe);
+    }
+
+    const deadline = Date.now() + timeout;
+    let initial: number | undefined;
+
+    for (;;) {
+      try {
+        await this.syncDeposits(account, { signal });
+      } catch (error) {
+        if (isAbortError(error) || error instanceof PipeSessionError) {
+          throw error;
+        }
+        // Deposits still sync on their own; keep polling the balance
+        console.warn('Deposit sync failed, checking balance anyway');
+      }
+
+      const balance = await this.getBalance(account, { signal });
+      if (options.minPipe !== undefined) {
+        if (balance.pipe >= options.minPipe) return balance;
+      } else if (initial === undefined) {
+        // Wait for anything beyond what was there when we started
+        initial = balance.pipe;
+      } else if (balance.pipe > initial) {
+        return balance;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new PipeApiError(
+          `Timed out waiting for deposit (balance ${balance.pipe} PIPE)`,
+          undefined,
+          PipeErrorCode.TIMEOUT
+        );
+      }
+      await abortableDelay(Math.min(pollInterval, remaining), signal);
+    }
+  }
+
+  /**
+   * Get current storage pricing for each upload tier
+   *
+   * @param options - Optional request options (abort signal)
+   * @returns Pricing per tier, in PIPE per GB
+   */
+  async getTierPricing(options: RequestOptions = {}): Promise<TierPricing[]> {
+    const { signal } = options;
+
+    try {
+      const response = await this.withRetry(
+        'getTierPricing',
+        () =>
+          this.api.get('/getTierPricing', {
+            signal,
+            context: { operation: 'getTierPricing' },
+          }),
+        { signal }
+      );
+
+      const tiers = Array.isArray(response.data) ? response.data : response.data?.tiers;
+      if (!Array.isArray(tiers)) {
+        throw new PipeApiError('Unexpected tier pricing response', response.status);
+      }
+
+      return tiers.map((tier: any) => ({
+        name: tier.name,
+        basePrice: tier.base_price,
+        currentPrice: tier.current_price ?? tier.base_price,
+        concurrency: tier.concurrency,
+        activeUsers: tier.active_users,
+        multipartConcurrency: tier.multipart_concurrency,
+        chunkSizeMb: tier.chunk_size_mb,
+      }));
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeApiError) {
+        throw error;
+      }
+      throw new PipeApiError(
+        `Failed to get tier pricing: ${error.message}`,
+        error.response?.status
+      );
+    }
+  }
+
+  /**
+   * Estimate what uploading a file of the given size will cost
+   *
+   * Uses the tier's current price, so compare the result against
+   * getBalance().pipe before uploading. The actual charge is decided by the
+   * API at upload time.
+   *
+   * @param sizeBytes - File size in bytes
+   * @param options - Tier (`priority`), cached pricing and abort signal
+   * @returns The estimated cost in PIPE
+   *
+   * @example
+   * ```ts
+   * const [estimate, balance] = await Promise.all([
+   *   client.estimateUploadCost(file.size, { priority: true }),
+   *   client.getBalance(account),
+   * ]);
+   * if (estimate.costPipe > balance.pipe) {
+   *   showDepositPrompt(estimate.costPipe - balance.pipe);
+   * }
+   * ```
+   */
+  async estimateUploadCost(
+    sizeBytes: number,
+    options: UploadCostOptions = {}
+  ): Promise<UploadCostEstimate> {
+    if (!Number.isFinite(sizeBytes) || sizeBytes < 0) {
+      throw new PipeValidationError('File size must be a non-negative number of bytes');
+    }
+
+    const tier: UploadTier = options.priority ? 'priority' : 'normal';
+    const pricing = options.pricing || (await this.getTierPricing({ signal: options.signal }));
+    const match = pricing.find((entry) => entry.name.toLowerCase() === tier);
+    if (!match) {
+      throw new PipeApiError(`No pricing available for the ${tier} tier`);
+    }
+
+    const sizeGb = sizeBytes / BYTES_PER_GB;
+    return {
+      tier,
+      sizeBytes,
+      sizeGb,
+      pricePerGb: match.currentPrice,
+      costPipe: sizeGb * match.currentPrice,
+    };
+  }
+
+  /**
+   * Get PIPE spending and transfer totals for an account
+   *
+   * @param account - Account credentials
+   * @param options - Period (`from`/`to`) and abort signal; the API default period if omitted
+   * @returns Usage totals for the period
+   * @throws PipeApiError if the response carries none of the known spending fields
+   *
+   * @example
+   * ```ts
+   * const usage = await client.getUsage(account, {
+   *   from: new Date(Date.now() - 30 * 24 * 3600_000),
+   *   to: new Date(),
+   * });
+   * console.log(`${usage.totalPipe} PIPE spent`);
+   * ```
+   */
+  async getUsage(account: PipeAccount, options: UsageOptions = {}): Promise<TokenUsage> {
+    const { signal } = options;
+    const from = options.from !== undefined ? toDate(options.from, 'from') : undefined;
+    const to = options.to !== undefined ? toDate(options.to, 'to') : undefined;
+    if (from && to && from > to) {
+      throw new PipeValidationError('Usage period must start before it ends');
+    }
+
+    const params: Record<string, string> = {};
+    if (from) params.start_date = from.toISOString();
+    if (to) params.end_date = to.toISOString();
+    const url = this.buildUrlWithParams('/api/token-usage', params);
+
+    const authHeaders = await this.getAuthHeaders(account, signal);
+
+    try {
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'getUsage',
+          () =>
+            this.api.get(url, {
+              headers,
+              signal,
+              context: { operation: 'getUsage', username: account.username },
+            }),
+          { signal }
+        )
+      );
+
+      const data = response.data || {};
+      const spending = data.token_spending || data;
+      const spendingFields = [
+        'total_tokens_spent',
+        'total_pipe_spent',
+        'storage_tokens',
+        'storage_pipe',
+        'bandwidth_tokens',
+        'bandwidth_pipe',
+      ];
+      if (typeof spending !== 'object' || !spendingFields.some((field) => field in spending)) {
+        throw new PipeApiError('Unexpected token usage response', response.status);
+      }
+
+      return {
+        from: data.start_date ? new Date(data.start_date) : from,
+        to: data.end_date ? new Date(data.end_date) : to,
+        totalPipe: Number(spending.total_tokens_spent ?? spending.total_pipe_spent ?? 0),
+        storagePipe: Number(spending.storage_tokens ?? spending.storage_pipe ?? 0),
+        bandwidthPipe: Number(spending.bandwidth_tokens ?? spending.bandwidth_pipe ?? 0),
+        bytesUploaded: Number(data.total_bytes_uploaded ?? data.bytes_uploaded ?? 0),
+        bytesDownloaded: Number(data.total_bytes_downloaded ?? data.bytes_downloaded ?? 0),
+      };
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
+      throw new PipeApiError(
+        `Failed to get token usage: ${error.message}`,
+        error.response?.status
+      );
+    }
+  }
+
   /**
    * Upload a file to Pipe Network
    *
@@ -264,7 +1066,8 @@ export class PipeClient {
     fileName: string,
     options: UploadOptions = {}
   ): Promise<UploadResult> {
-    const authHeaders = await this.getAuthHeaders(account);
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
     try {
       // Convert File to Uint8Array if needed (browser environment)
@@ -276,60 +1079,280 @@ export class PipeClient {
         data = file;
       }
 
-      // Build upload URL with filename
-      const url = this.buildUrlWithParams('/upload', { file_name: fileName });
+      // Build upload URL with filename (priority uploads use a dedicated endpoint)
+      const tier = this.uploadTier(options.priority);
+      const url = this.buildUrlWithParams(UPLOAD_ENDPOINTS[tier], { file_name: fileName });
+      const report = createProgressReporter(options.onProgress);
 
       // Upload as binary stream
-      const response = await axios.post(url, data, {
-        headers: {
-          ...authHeaders,
-          'Content-Type': 'application/octet-stream',
-          'Content-Length': data.length.toString(),
-        },
-        timeout: 0, // No timeout - uploads can take as long as needed
-        onUploadProgress: options.onProgress ? (progressEvent) => {
-          if (progressEvent.total && options.onProgress) {
-            const percent = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-            options.onProgress(percent);
-          }
-        } : undefined,
-      });
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'uploadFile',
+          () =>
+            this.api.post(url, data, {
+              headers: {
+                ...headers,
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': data.length.toString(),
+              },
+              timeout: 0, // No timeout - uploads can take as long as needed
+              signal,
+              context: { operation: 'uploadFile', username: account.username },
+              onUploadProgress: options.onProgress
+                ? (progressEvent) => report('uploading', progressEvent.loaded, data.length)
+                : undefined,
+            }),
+          { signal }
+        )
+      );
 
       if (response.status !== 200 && response.status !== 202) {
         throw new PipeApiError(`Upload failed: ${response.status}`);
       }
 
       // Calculate blake3 hash for file ID
+      report('hashing', 0, data.length);
       const blake3Hash = await this.calculateBlake3Hash(data);
+      report('hashing', data.length, data.length);
 
-      return {
+      const result: UploadResult = {
         fileId: blake3Hash,
         fileName,
         size: data.length,
         blake3Hash,
         uploadedAt: new Date(),
+        tier,
       };
+
+      if (options.metadata) {
+        report('finalizing', 0);
+        await this.saveMetadata(account, result, options.metadata, signal);
+      }
+
+      return result;
     } catch (error: any) {
-      if (error.response?.status === 402) {
-        throw new PipeApiError(
-          'Insufficient PIPE balance. Please deposit more PIPE tokens to upload files.',
-          402,
-          PipeErrorCode.INSUFFICIENT_BALANCE
-        );
+      throw this.toUploadError(error);
+    }
+  }
+
+  /**
+   * Upload a file to Pipe Network from a stream
+   *
+   * The payload is streamed to the server without being buffered in memory,
+   * so this is suitable for multi-GB files. Size and blake3 hash are computed
+   * incrementally as bytes flow through.
+   *
+   * @param account - Account credentials
+   * @param source - Node Readable, web ReadableStream or async iterable of chunks
+   * @param fileName - Name for the file
+   * @param options - Optional upload options (pass `size` to enable progress percentages)
+   * @returns Upload result with file ID
+   *
+   * @example
+   * ```ts
+   * import { createReadStream, statSync } from 'fs';
+   *
+   * const result = await client.uploadStream(
+   *   account,
+   *   createReadStream('./backup.tar'),
+   *   'backup.tar',
+   *   { size: statSync('./backup.tar').size }
+   * );
+   * ```
+   */
+  async uploadStream(
+    account: PipeAccount,
+    source: StreamSource,
+    fileName: string,
+    options: StreamUploadOptions = {}
+  ): Promise<UploadResult> {
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
+
+    try {
+      const { size } = options;
+      const report = createProgressReporter(options.onProgress);
+      const { chunks, digest } = digestChunks(
+        iterateChunks(source),
+        options.onProgress ? (bytesRead) => report('uploading', bytesRead, size) : undefined
+      );
+
+      const tier = this.uploadTier(options.priority);
+      const url = this.buildUrlWithParams(UPLOAD_ENDPOINTS[tier], { file_name: fileName });
+
+      const headers: Record<string, string> = {
+        ...authHeaders,
+        'Content-Type': 'application/octet-stream',
+      };
+      if (size !== undefined) {
+        headers['Content-Length'] = size.toString();
       }
-      if (error.response?.status === 401) {
-        throw new PipeApiError(
-          'Authentication failed. Please login again.',
-          401,
-          PipeErrorCode.UNAUTHORIZED
-        );
+
+      // Streamed body - never retried since the source cannot be replayed
+      const response = await this.api.post(url, chunks, {
+        headers,
+        timeout: 0, // No timeout - uploads can take as long as needed
+        signal,
+        context: { operation: 'uploadStream', username: account.username },
+      });
+
+      if (response.status !== 200 && response.status !== 202) {
+        throw new PipeApiError(`Upload failed: ${response.status}`);
       }
-      throw new PipeApiError(
-        `Upload failed: ${error.message}`,
-        error.response?.status,
-        PipeErrorCode.UPLOAD_FAILED
+
+      const { size: uploadedSize, blake3Hash } = digest();
+
+      const result: UploadResult = {
+        fileId: blake3Hash,
+        fileName,
+        size: uploadedSize,
+        blake3Hash,
+        uploadedAt: new Date(),
+        tier,
+      };
+
+      if (options.metadata) {
+        report('finalizing', 0);
+        await this.saveMetadata(account, result, options.metadata, signal);
+      }
+
+      return result;
+    } catch (error: any) {
+      throw this.toUploadError(error);
+    }
+  }
+
+  /**
+   * Upload a file in parts so an interrupted upload can be resumed
+   *
+   * The payload is split into `chunkSize` parts, each uploaded (and retried)
+   * separately, followed by a manifest stored under `fileName`. `downloadFile`
+   * and `downloadStream` detect the manifest and reassemble the parts.
+   *
+   * After every confirmed part `onCheckpoint` receives a serializable
+   * checkpoint; pass it back as `checkpoint` to skip the parts already uploaded.
+   *
+   * @param account - Account credentials
+   * @param file - File data (File/Blob parts are read lazily)
+   * @param fileName - Name for the file
+   * @param options - Resumable upload options
+   * @returns Upload result with file ID (blake3 hash of the whole file)
+   *
+   * @example
+   * ```ts
+   * const saved = localStorage.getItem('upload:video.mp4');
+   * const result = await client.uploadResumable(account, file, 'video.mp4', {
+   *   checkpoint: saved ? JSON.parse(saved) : undefined,
+   *   onCheckpoint: (cp) => localStorage.setItem('upload:video.mp4', JSON.stringify(cp)),
+   * });
+   * localStorage.removeItem('upload:video.mp4');
+   * ```
+   */
+  async uploadResumable(
+    account: PipeAccount,
+    file: Blob | Buffer | Uint8Array,
+    fileName: string,
+    options: ResumableUploadOptions = {}
+  ): Promise<UploadResult> {
+    const { signal } = options;
+    const isBlob = typeof Blob !== 'undefined' && file instanceof Blob;
+    const size = isBlob ? (file as Blob).size : (file as Uint8Array).length;
+
+    // A resumed upload stays on the tier its first parts went to
+    if (
+      options.checkpoint &&
+      options.priority !== undefined &&
+      options.priority !== (options.checkpoint.tier === 'priority')
+    ) {
+      throw new PipeValidationError(
+        `Checkpoint was uploaded with the ${options.checkpoint.tier} tier; resume it with the same tier`
       );
     }
+    const priority = options.checkpoint ? options.checkpoint.tier === 'priority' : options.priority;
+    const tier = this.uploadTier(priority);
+
+    const checkpoint: UploadCheckpoint = options.checkpoint
+      ? { ...options.checkpoint, parts: [...options.checkpoint.parts] }
+      : { fileName, size, chunkSize: options.chunkSize || DEFAULT_CHUNK_SIZE, tier, parts: [] };
+
+    if (checkpoint.fileName !== fileName || checkpoint.size !== size) {
+      throw new PipeValidationError(
+        `Checkpoint is for ${checkpoint.fileName} (${checkpoint.size} bytes), not ${fileName} (${size} bytes)`
+      );
+    }
+    if (!(checkpoint.chunkSize > 0)) {
+      throw new PipeValidationError('Chunk size must be greater than 0');
+    }
+
+    const report = createProgressReporter(options.onProgress);
+    const hasher = blake3.create({ dkLen: 32 });
+    const partCount = Math.max(1, Math.ceil(size / checkpoint.chunkSize));
+
+    for (let index = 0; index < partCount; index++) {
+      throwIfAborted(signal);
+
+      const start = index * checkpoint.chunkSize;
+      const end = Math.min(size, start + checkpoint.chunkSize);
+      const chunk = isBlob
+        ? new Uint8Array(await (file as Blob).slice(start, end).arrayBuffer())
+        : (file as Uint8Array).subarray(start, end);
+      const chunkHash = hashChunk(chunk);
+      hasher.update(chunk);
+
+      // Part already confirmed in a previous run - make sure the source didn't change
+      const confirmed = checkpoint.parts[index];
+      if (confirmed) {
+        if (confirmed.blake3Hash !== chunkHash) {
+          throw new PipeValidationError(
+            `Checkpoint does not match file contents at part ${index}`
+          );
+        }
+        report('hashing', end, size);
+        continue;
+      }
+
+      const name = chunkFileName(fileName, index);
+      await this.uploadFile(account, chunk, name, {
+        priority,
+        signal,
+        onProgress: options.onProgress
+          ? (_percent, part) => {
+              if (part.phase === 'uploading') report('uploading', start + part.loaded, size);
+            }
+          : undefined,
+      });
+
+      checkpoint.parts.push({ name, size: chunk.length, blake3Hash: chunkHash });
+      options.onCheckpoint?.({ ...checkpoint, parts: [...checkpoint.parts] });
+      report('uploading', end, size);
+    }
+
+    const blake3Hash = Array.from(hasher.digest(), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('');
+
+    // The manifest goes under the real name so downloads find it
+    report('finalizing', 0);
+    await this.uploadFile(account, encodeChunkManifest(checkpoint, blake3Hash), fileName, {
+      priority,
+      signal,
+    });
+
+    const result: UploadResult = {
+      fileId: blake3Hash,
+      fileName,
+      size,
+      blake3Hash,
+      uploadedAt: new Date(),
+      tier,
+      chunked: true,
+    };
+
+    if (options.metadata) {
+      await this.saveMetadata(account, result, options.metadata, signal);
+    }
+
+    return result;
   }
 
   /**
@@ -355,61 +1378,240 @@ export class PipeClient {
    *
    * @param account - Account credentials
    * @param fileName - Original filename used during upload (NOT the blake3 hash)
+   * @param options - Optional download options (progress callback, abort signal)
    * @returns File data as Uint8Array
    */
-  async downloadFile(account: PipeAccount, fileName: string): Promise<Uint8Array> {
-    const authHeaders = await this.getAuthHeaders(account);
+  async downloadFile(
+    account: PipeAccount,
+    fileName: string,
+    options: DownloadOptions = {}
+  ): Promise<Uint8Array> {
+    const { signal, onProgress } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
+    const report = createProgressReporter(onProgress);
 
+    let data: Uint8Array;
     try {
       const downloadUrl = this.buildUrlWithParams('/download-stream', { file_name: fileName });
 
-      const response = await axios.get(downloadUrl, {
-        headers: authHeaders,
-        responseType: 'arraybuffer',
-        timeout: 60000,
-      });
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'downloadFile',
+          () =>
+            this.api.get(downloadUrl, {
+              headers,
+              responseType: 'arraybuffer',
+              timeout: 60000,
+              signal,
+              onDownloadProgress: onProgress
+                ? (progressEvent) => report('downloading', progressEvent.loaded, progressEvent.total)
+                : undefined,
+              context: { operation: 'downloadFile', username: account.username },
+            }),
+          { signal }
+        )
+      );
 
       if (response.status !== 200) {
         throw new PipeApiError(`Download failed: ${response.status}`);
       }
 
-      return new Uint8Array(response.data);
+      // Strip the multipart/form-data envelope the server wraps files in
+      data = unwrapMultipart(new Uint8Array(response.data), response.headers['content-type']);
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
       throw new PipeApiError(
         `Download failed: ${error.message}`,
         error.response?.status
       );
     }
+
+    // Files uploaded with uploadResumable are stored as parts plus a manifest
+    const manifest = parseChunkManifest(data, fileName);
+    if (manifest) {
+      return this.downloadChunks(account, manifest, options);
+    }
+
+    return data;
+  }
+
+  /**
+   * Download a file from Pipe Network as a stream
+   *
+   * The multipart envelope is parsed on the fly, so the stream yields only the
+   * real file bytes and never holds the whole file in memory.
+   *
+   * IMPORTANT: The fileName parameter must be the ORIGINAL filename used during upload.
+   *
+   * @param account - Account credentials
+   * @param fileName - Original filename used during upload (NOT the blake3 hash)
+   * @param options - Optional request options (the signal also cancels the body stream)
+   * @returns ReadableStream of file bytes (also usable with `for await`)
+   *
+   * @example
+   * ```ts
+   * const stream = await client.downloadStream(account, 'backup.tar');
+   * for await (const chunk of stream) {
+   *   out.write(chunk);
+   * }
+   * ```
+   */
+  async downloadStream(
+    account: PipeAccount,
+    fileName: string,
+    options: RequestOptions = {}
+  ): Promise<DownloadStream> {
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
+
+    try {
+      const downloadUrl = this.buildUrlWithParams('/download-stream', { file_name: fileName });
+
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'downloadStream',
+          () =>
+            this.api.get<AsyncIterable<Uint8Array>>(downloadUrl, {
+              headers,
+              responseType: 'stream',
+              timeout: 0, // No timeout - downloads can take as long as needed
+              signal,
+              context: { operation: 'downloadStream', username: account.username },
+            }),
+          { signal }
+        )
+      );
+
+      const body = unwrapMultipartStream(response.data, response.headers['content-type']);
+      return toDownloadStream(
+        toDownloadErrors(this.expandChunkManifest(account, fileName, body, signal))
+      );
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
+      throw new PipeApiError(
+        `Download failed: ${error.message}`,
+        error.response?.status,
+        error.response?.status === 404 ? PipeErrorCode.FILE_NOT_FOUND : PipeErrorCode.DOWNLOAD_FAILED
+      );
+    }
   }
 
   /**
    * Delete a file from Pipe Network
    *
+   * Files uploaded with uploadResumable are stored as parts plus a manifest.
+   * Pass `chunked: true` for them (UploadResult.chunked / FileRecord.chunked):
+   * the manifest is then read first so every part is deleted too. The
+   * metadata sidecar, if any, is removed as well.
+   *
    * @param account - Account credentials
    * @param fileName - File name or blake3 hash
+   * @param options - Whether the file is chunked, and abort signal
    * @returns Success status
+   *
+   * @example
+   * ```ts
+   * const result = await client.uploadResumable(account, file, 'video.mp4');
+   * // ...
+   * await client.deleteFile(account, result.fileName, { chunked: result.chunked });
+   * ```
+   */
+  async deleteFile(
+    account: PipeAccount,
+    fileName: string,
+    options: DeleteOptions = {}
+  ): Promise<void> {
+    const { signal } = options;
+
+    // Parts go first: deleting the manifest first would leave them unreachable
+    const manifest =
+      options.chunked && !isMetadataFileName(fileName)
+        ? await this.readChunkManifest(account, fileName, signal)
+        : null;
+    if (manifest) {
+      for (const part of manifest.parts) {
+        try {
+          await this.deleteObject(account, part.name, signal);
+        } catch (error: any) {
+          // Already removed by an earlier, interrupted delete
+          if (!(error instanceof PipeApiError && error.code === PipeErrorCode.FILE_NOT_FOUND)) {
+            throw error;
+          }
+        }
+      }
+    }
+
+    await this.deleteObject(account, fileName, signal);
+
+    // Remove the metadata sidecar too, if one was uploaded. Most files have
+    // none, so failures are ignored - except cancellation and a lost session.
+    if (!isMetadataFileName(fileName)) {
+      try {
+        await this.deleteObject(account, metadataFileName(fileName), signal);
+      } catch (error: any) {
+        if (isAbortError(error)) {
+          throw PipeApiError.aborted();
+        }
+        if (error instanceof PipeSessionError) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete a single stored object
    */
-  async deleteFile(account: PipeAccount, fileName: string): Promise<void> {
-    const authHeaders = await this.getAuthHeaders(account);
+  private async deleteObject(
+    account: PipeAccount,
+    fileName: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
     try {
       // Use POST method with parameters in request body
-      const response = await this.api.post(
-        '/deleteFile',
-        {
-          user_id: account.userId,
-          user_app_key: account.userAppKey,
-          file_name: fileName,
-        },
-        {
-          headers: authHeaders,
-        }
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'deleteFile',
+          () =>
+            this.api.post(
+              '/deleteFile',
+              {
+                user_id: account.userId,
+                user_app_key: appKeyOf(account),
+                file_name: fileName,
+              },
+              {
+                headers,
+                signal,
+                context: { operation: 'deleteFile', username: account.username },
+              }
+            ),
+          { signal }
+        )
       );
 
       if (response.status !== 200) {
         throw new PipeApiError(`Delete failed: ${response.status}`, response.status, PipeErrorCode.DELETE_FAILED);
       }
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
       if (error.response?.status === 404) {
         throw new PipeApiError(
           'File not found',
@@ -425,32 +1627,102 @@ export class PipeClient {
     }
   }
 
+
+  /**
+   * Get the metadata stored with a file via UploadOptions.metadata
+   *
+   * @param account - Account credentials
+   * @param fileName - Original filename used during upload
+   * @param options - Optional request options (abort signal)
+   * @returns The metadata, or null if the file was uploaded without metadata
+   */
+  async getFileMetadata(
+    account: PipeAccount,
+    fileName: string,
+    options: RequestOptions = {}
+  ): Promise<Record<string, any> | null> {
+    const record = await this.getFileRecord(account, fileName, options);
+    return record?.metadata ?? null;
+  }
+
+  /**
+   * Get the full file record (size, hash, upload date, metadata) stored with a file
+   *
+   * Only available for files uploaded with UploadOptions.metadata. Useful to
+   * rebuild PipeFileStorage records on another device.
+   *
+   * @param account - Account credentials
+   * @param fileName - Original filename used during upload
+   * @param options - Optional request options (abort signal)
+   * @returns The file record, or null if no metadata was stored
+   */
+  async getFileRecord(
+    account: PipeAccount,
+    fileName: string,
+    options: RequestOptions = {}
+  ): Promise<FileRecord | null> {
+    let data: Uint8Array;
+    try {
+      data = await this.downloadFile(account, metadataFileName(fileName), options);
+    } catch (error: any) {
+      if (error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      return decodeMetadataSidecar(data);
+    } catch (error: any) {
+      throw new PipeApiError(
+        `Invalid metadata for ${fileName}: ${error.message}`,
+        undefined,
+        PipeErrorCode.DOWNLOAD_FAILED
+      );
+    }
+  }
+
   /**
    * Create a public shareable link for a file
    *
+   * Not for files uploaded with uploadResumable: only the manifest would be
+   * public, and publicDownload rejects it.
+   *
    * @param account - Account credentials
    * @param fileName - File name or blake3 hash
-   * @param options - Optional title and description for social media previews
+   * @param options - Optional title and description for social media previews, and abort signal
    * @returns Public link information
    */
   async createPublicLink(
     account: PipeAccount,
     fileName: string,
-    options?: PublicLinkOptions
+    options: PublicLinkOptions = {}
   ): Promise<PublicLink> {
-    const authHeaders = await this.getAuthHeaders(account);
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
     try {
-      const response = await this.api.post(
-        '/createPublicLink',
-        {
-          user_id: account.userId,
-          user_app_key: account.userAppKey,
-          file_name: fileName,
-          custom_title: options?.customTitle,
-          custom_description: options?.customDescription,
-        },
-        { headers: authHeaders }
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'createPublicLink',
+          () =>
+            this.api.post(
+              '/createPublicLink',
+              {
+                user_id: account.userId,
+                user_app_key: appKeyOf(account),
+                file_name: fileName,
+                custom_title: options.customTitle,
+                custom_description: options.customDescription,
+              },
+              {
+                headers,
+                signal,
+                context: { operation: 'createPublicLink', username: account.username },
+              }
+            ),
+          { signal }
+        )
       );
 
       const { link_hash, public_url } = response.data;
@@ -464,6 +1736,12 @@ export class PipeClient {
         shareUrl,
       };
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
       if (error.response?.status === 404) {
         throw new PipeApiError(
           'File not found',
@@ -484,20 +1762,35 @@ export class PipeClient {
    *
    * @param account - Account credentials
    * @param linkHash - The hash of the public link to delete
+   * @param options - Optional request options (abort signal)
    * @returns Success status
    */
-  async deletePublicLink(account: PipeAccount, linkHash: string): Promise<void> {
-    const authHeaders = await this.getAuthHeaders(account);
+  async deletePublicLink(
+    account: PipeAccount,
+    linkHash: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
     try {
-      const response = await this.api.delete('/deletePublicLink', {
-        headers: authHeaders,
-        data: {
-          user_id: account.userId,
-          user_app_key: account.userAppKey,
-          link_hash: linkHash,
-        },
-      });
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'deletePublicLink',
+          () =>
+            this.api.delete('/deletePublicLink', {
+              headers,
+              data: {
+                user_id: account.userId,
+                user_app_key: appKeyOf(account),
+                link_hash: linkHash,
+              },
+              signal,
+              context: { operation: 'deletePublicLink', username: account.username },
+            }),
+          { signal }
+        )
+      );
 
       if (response.status !== 200) {
         throw new PipeApiError(
@@ -506,6 +1799,12 @@ export class PipeClient {
         );
       }
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
       if (error.response?.status === 404) {
         throw new PipeApiError(
           'Public link not found',
@@ -524,21 +1823,43 @@ export class PipeClient {
   /**
    * Download a file using a public link (no authentication required)
    *
+   * Files uploaded with uploadResumable can't be shared this way: a link only
+   * exposes the manifest, while the parts stay private.
+   *
    * @param linkHash - The public link hash
+   * @param options - Optional download options (progress callback, abort signal)
    * @returns File data as Uint8Array
+   * @throws PipeApiError with code DOWNLOAD_FAILED if the link points to a chunked upload
    */
-  async publicDownload(linkHash: string): Promise<Uint8Array> {
+  async publicDownload(linkHash: string, options: DownloadOptions = {}): Promise<Uint8Array> {
+    const { signal, onProgress } = options;
+    const report = createProgressReporter(onProgress);
+
+    let data: Uint8Array;
     try {
-      const response = await this.api.get(`/public/${linkHash}`, {
-        responseType: 'arraybuffer',
-      });
+      const response = await this.withRetry(
+        'publicDownload',
+        () =>
+          this.api.get(`/public/${linkHash}`, {
+            responseType: 'arraybuffer',
+            signal,
+            onDownloadProgress: onProgress
+              ? (progressEvent) => report('downloading', progressEvent.loaded, progressEvent.total)
+              : undefined,
+            context: { operation: 'publicDownload' },
+          }),
+        { signal }
+      );
 
       if (response.status !== 200) {
         throw new PipeApiError(`Public download failed: ${response.status}`, response.status);
       }
 
-      return new Uint8Array(response.data);
+      data = unwrapMultipart(new Uint8Array(response.data), response.headers['content-type']);
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
       if (error.response?.status === 404) {
         throw new PipeApiError(
           'Public link not found or expired',
@@ -552,6 +1873,17 @@ export class PipeClient {
         PipeErrorCode.DOWNLOAD_FAILED
       );
     }
+
+    // Returning the manifest would pass it off as the file content
+    if (parseChunkManifest(data)) {
+      throw new PipeApiError(
+        'Public download failed: the link points to a chunked upload, whose parts are not public',
+        undefined,
+        PipeErrorCode.DOWNLOAD_FAILED
+      );
+    }
+
+    return data;
   }
 
   /**
@@ -559,23 +1891,47 @@ export class PipeClient {
    *
    * @param account - Account credentials
    * @param solAmount - Amount of SOL to exchange
+   * @param options - Optional request options (abort signal)
    * @returns Amount of PIPE tokens received
    */
-  async exchangeSolForPipe(account: PipeAccount, solAmount: number): Promise<number> {
+  async exchangeSolForPipe(
+    account: PipeAccount,
+    solAmount: number,
+    options: RequestOptions = {}
+  ): Promise<number> {
     assertValidAmount(solAmount);
+    this.requireFeature('exchange');
 
-    const authHeaders = await this.getAuthHeaders(account);
+    const { signal } = options;
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
     try {
-      const response = await this.api.post(
-        '/exchangeSolForTokens',
-        { amount_sol: solAmount },
-        { headers: authHeaders }
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'exchangeSolForPipe',
+          () =>
+            this.api.post(
+              '/exchangeSolForTokens',
+              { amount_sol: solAmount },
+              {
+                headers,
+                signal,
+                context: { operation: 'exchangeSolForPipe', username: account.username },
+              }
+            ),
+          { signal }
+        )
       );
 
       const data = response.data;
       return data.tokens_minted || data.pipe_tokens || data.amount || 0;
     } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
       if (error.response?.status === 402) {
         throw new PipeApiError(
           'Insufficient SOL balance for exchange',
@@ -594,70 +1950,347 @@ export class PipeClient {
   /**
    * Get authentication headers for API requests
    * Handles token refresh if needed
+   *
+   * @param account - Account credentials (tokens are updated in place)
+   * @param signal - Cancels waiting for a refresh or re-login
    */
-  private async getAuthHeaders(account: PipeAccount): Promise<Record<string, string>> {
-    const headers: Record<string, string> = {};
-
-    // Check if JWT token is still valid
-    if (account.accessToken && account.tokenExpiry && Date.now() < account.tokenExpiry) {
-      headers['Authorization'] = `Bearer ${account.accessToken}`;
-      return headers;
+  private async getAuthHeaders(
+    account: PipeAccount,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    try {
+      return await this.session.getAuthHeaders(account, signal);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      // Includes PipeSessionError when the credentials were rejected
+      if (error instanceof PipeApiError) {
+        throw error;
+      }
+      // The credentials may still be fine; the token request itself failed
+      throw new PipeApiError(
+        `Could not renew the session: ${error.message}`,
+        error.response?.status,
+        PipeErrorCode.NETWORK_ERROR
+      );
     }
+  }
+
+  /**
+   * Run an authenticated request, refreshing the tokens and retrying once on 401
+   *
+   * @param account - Account credentials
+   * @param authHeaders - Headers for the first attempt (from getAuthHeaders)
+   * @param signal - Cancels waiting for a refresh
+   * @param request - The call to perform with the given auth headers
+   */
+  private async withAuth<T>(
+    account: PipeAccount,
+    authHeaders: Record<string, string>,
+    signal: AbortSignal | undefined,
+    request: (headers: Record<string, string>) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await request(authHeaders);
+    } catch (error: any) {
+      if (error?.response?.status !== 401) {
+        throw error;
+      }
 
-    // Token expired, try to refresh
-    if (account.refreshToken) {
+      let refreshed: Record<string, string> | undefined;
       try {
-        const refreshResponse = await this.api.post('/auth/refresh', {
-          refresh_token: account.refreshToken,
-        });
+        refreshed = await this.session.reauthenticate(account, authHeaders, signal);
+      } catch (refreshError) {
+        if (isAbortError(refreshError) || refreshError instanceof PipeSessionError) {
+          throw refreshError;
+        }
+      }
 
-        if (refreshResponse.status === 200) {
-          const tokens = refreshResponse.data;
+      if (!refreshed) {
+        throw error;
+      }
+      return request(refreshed);
+    }
+  }
 
-          // Update account with new tokens
-          account.accessToken = tokens.access_token;
-          account.refreshToken = tokens.refresh_token || account.refreshToken;
-          account.tokenExpiry = Date.now() + tokens.expires_in * 1000;
+  /**
+   * Set a new password for a logged-in account
+   * Updates the account's password and tokens in place
+   *
+   * @param account - Account credentials
+   * @param newPassword - The new password
+   * @param signal - Abort signal
+   */
+  private async setPassword(
+    account: PipeAccount,
+    newPassword: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const authHeaders = await this.getAuthHeaders(account, signal);
 
-          headers['Authorization'] = `Bearer ${tokens.access_token}`;
-          return headers;
-        }
-      } catch (error) {
-        console.warn('Token refresh failed, attempting re-login');
+    try {
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'changePassword',
+          () =>
+            this.api.post(
+              '/auth/set-password',
+              {
+                user_id: account.userId,
+                // Accounts without a real app key are identified by the Authorization header
+                user_app_key: appKeyOf(account),
+                new_password: newPassword,
+              },
+              {
+                headers,
+                signal,
+                context: { operation: 'changePassword', username: account.username },
+              }
+            ),
+          { signal }
+        )
+      );
+
+      const tokens = response.data;
+      account.password = newPassword;
+      if (tokens?.access_token) {
+        account.accessToken = tokens.access_token;
+        account.refreshToken = tokens.refresh_token || account.refreshToken;
+        account.tokenExpiry = Date.now() + tokens.expires_in * 1000;
+      }
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
       }
+      throw new PipeApiError(
+        `Failed to change password: ${error.message}`,
+        error.response?.status,
+        PipeErrorCode.UNKNOWN
+      );
     }
 
-    // Refresh failed, try to re-login
-    if (account.username && account.password) {
-      try {
-        const loginResponse = await this.api.post('/auth/login', {
-          username: account.username,
-          password: account.password,
-        });
+    await this.session.notifyUpdated(account, 'password');
+  }
+
+  /**
+   * Download and reassemble the parts listed in a chunk manifest
+   */
+  private async downloadChunks(
+    account: PipeAccount,
+    manifest: ChunkManifest,
+    options: DownloadOptions
+  ): Promise<Uint8Array> {
+    const { signal, onProgress } = options;
+    const report = createProgressReporter(onProgress);
+    const data = new Uint8Array(manifest.size);
+    let offset = 0;
+
+    for (const part of manifest.parts) {
+      const partOffset = offset;
+      const chunk = await this.downloadFile(account, part.name, {
+        signal,
+        onProgress: onProgress
+          ? (_percent, progress) =>
+              report('downloading', partOffset + Math.min(part.size, progress.loaded), manifest.size)
+          : undefined,
+      });
+      if (chunk.length !== part.size || offset + chunk.length > manifest.size) {
+        throw new PipeApiError(
+          `Download failed: part ${part.name} has unexpected size ${chunk.length}`,
+          undefined,
+          PipeErrorCode.DOWNLOAD_FAILED
+        );
+      }
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    if (offset !== manifest.size) {
+      throw new PipeApiError(
+        `Download failed: reassembled ${offset} of ${manifest.size} bytes`,
+        undefined,
+        PipeErrorCode.DOWNLOAD_FAILED
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Pass a download body through, or stream the parts if it is a chunk manifest
+   */
+  private async *expandChunkManifest(
+    account: PipeAccount,
+    fileName: string,
+    body: AsyncIterable<Uint8Array>,
+    signal?: AbortSignal
+  ): AsyncGenerator<Uint8Array> {
+    const iterator = body[Symbol.asyncIterator]();
 
-        if (loginResponse.status === 200) {
-          const tokens = loginResponse.data;
+    try {
+      const first = await readHead(iterator);
+
+      if (!isChunkManifest(first)) {
+        if (first.length > 0) yield first;
+        while (true) {
+          const { done, value } = await iterator.next();
+          if (done) return;
+          yield value;
+        }
+      }
 
-          account.accessToken = tokens.access_token;
-          account.refreshToken = tokens.refresh_token;
-          account.tokenExpiry = Date.now() + tokens.expires_in * 1000;
+      // Manifests are small - buffer the rest before deciding
+      const data = await readRest(iterator, first);
+      const manifest = parseChunkManifest(data, fileName);
+      if (!manifest) {
+        yield data;
+        return;
+      }
 
-          headers['Authorization'] = `Bearer ${tokens.access_token}`;
-          return headers;
+      for (const part of manifest.parts) {
+        let received = 0;
+        for await (const chunk of await this.downloadStream(account, part.name, { signal })) {
+          received += chunk.length;
+          if (received > part.size) break;
+          yield chunk;
         }
-      } catch (error) {
-        throw new PipeApiError('Authentication failed - unable to refresh or re-login', 401);
+        if (received !== part.size) {
+          throw new PipeApiError(
+            `Download failed: part ${part.name} has unexpected size ${received}`,
+            undefined,
+            PipeErrorCode.DOWNLOAD_FAILED
+          );
+        }
+      }
+    } finally {
+      // Also closes the body when the consumer stops early
+      await iterator.return?.();
+    }
+  }
+
+  /**
+   * Read the chunk manifest stored under a file name
+   *
+   * Only the first bytes are downloaded unless the file is a manifest.
+   *
+   * @returns The manifest, or null if the file is a plain file or doesn't exist
+   */
+  private async readChunkManifest(
+    account: PipeAccount,
+    fileName: string,
+    signal?: AbortSignal
+  ): Promise<ChunkManifest | null> {
+    const authHeaders = await this.getAuthHeaders(account, signal);
+    let iterator: AsyncIterator<Uint8Array> | undefined;
+
+    try {
+      const downloadUrl = this.buildUrlWithParams('/download-stream', { file_name: fileName });
+
+      // Part of a delete, but reading is safe to repeat
+      const response = await this.withAuth(account, authHeaders, signal, (headers) =>
+        this.withRetry(
+          'deleteFile',
+          () =>
+            this.api.get<AsyncIterable<Uint8Array>>(downloadUrl, {
+              headers,
+              responseType: 'stream',
+              signal,
+              context: { operation: 'deleteFile', username: account.username },
+            }),
+          { idempotent: true, signal }
+        )
+      );
+
+      iterator = unwrapMultipartStream(response.data, response.headers['content-type'])[
+        Symbol.asyncIterator
+      ]();
+      const head = await readHead(iterator);
+      if (!isChunkManifest(head)) {
+        return null;
+      }
+      return parseChunkManifest(await readRest(iterator, head), fileName);
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
+      if (error.response?.status === 404) {
+        return null;
       }
+      throw new PipeApiError(
+        `Delete failed: could not check for chunk parts: ${error.message}`,
+        error.response?.status,
+        PipeErrorCode.DELETE_FAILED
+      );
+    } finally {
+      // Stop the body after the head of a plain file
+      await iterator?.return?.();
     }
+  }
 
-    // Fallback to legacy auth if we have userAppKey
-    if (account.userAppKey && account.userAppKey !== 'jwt-based') {
-      headers['X-User-Id'] = account.userId;
-      headers['X-User-App-Key'] = account.userAppKey;
-      return headers;
+  /**
+   * Upload the metadata sidecar for a freshly uploaded file
+   */
+  private async saveMetadata(
+    account: PipeAccount,
+    result: UploadResult,
+    metadata: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    try {
+      await this.uploadFile(
+        account,
+        encodeMetadataSidecar(result, metadata),
+        metadataFileName(result.fileName),
+        { signal }
+      );
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        throw PipeApiError.aborted();
+      }
+      if (error instanceof PipeSessionError) {
+        throw error;
+      }
+      throw new PipeApiError(
+        `File uploaded but metadata could not be saved: ${error.message}`,
+        error.status,
+        PipeErrorCode.UPLOAD_FAILED
+      );
     }
+    result.metadata = metadata;
+  }
 
-    throw new PipeApiError('No valid authentication available', 401);
+  /**
+   * Map an upload failure to a PipeApiError
+   */
+  private toUploadError(error: any): PipeApiError {
+    if (isAbortError(error)) {
+      return PipeApiError.aborted();
+    }
+    if (error instanceof PipeApiError) {
+      return error;
+    }
+    if (error.response?.status === 402) {
+      return PipeInsufficientBalanceError.fromData(error.response.data);
+    }
+    if (error.response?.status === 401) {
+      return new PipeApiError(
+        'Authentication failed. Please login again.',
+        401,
+        PipeErrorCode.UNAUTHORIZED
+      );
+    }
+    return new PipeApiError(
+      `Upload failed: ${error.message}`,
+      error.response?.status,
+      PipeErrorCode.UPLOAD_FAILED
+    );
   }
 
   /**
@@ -681,3 +2314,74 @@ export class PipeClient {
     }
   }
 }
+
+/**
+ * Read just enough of a body to recognize a chunk manifest
+ */
+async function readHead(iterator: AsyncIterator<Uint8Array>): Promise<Uint8Array> {
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  while (headLength < MANIFEST_PREFIX_LENGTH) {
+    const { done, value } = await iterator.next();
+    if (done) break;
+    head.push(value);
+    headLength += value.length;
+  }
+  return concatChunks(head);
+}
+
+/**
+ * Buffer the rest of a body that starts like a chunk manifest
+ */
+async function readRest(iterator: AsyncIterator<Uint8Array>, head: Uint8Array): Promise<Uint8Array> {
+  const rest: Uint8Array[] = [head];
+  while (true) {
+    const { done, value } = await iterator.next();
+    if (done) break;
+    rest.push(value);
+  }
+  return concatChunks(rest);
+}
+
+/**
+ * Map failures while a download body streams to the errors the request itself throws
+ */
+async function* toDownloadErrors(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  try {
+    yield* chunks;
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      throw PipeApiError.aborted();
+    }
+    if (error instanceof PipeApiError || error instanceof PipeSessionError) {
+      throw error;
+    }
+    throw new PipeApiError(
+      `Download failed: ${error.message}`,
+      error.response?.status,
+      PipeErrorCode.DOWNLOAD_FAILED
+    );
+  }
+}
+
+/**
+ * Whether a login error may mean the username does not exist
+ * The API rejects unknown users and wrong passwords the same way.
+ */
+function isUnknownAccountError(error: any): boolean {
+  return (
+    error.code === PipeErrorCode.INVALID_CREDENTIALS ||
+    error.code === PipeErrorCode.ACCOUNT_NOT_FOUND
+  );
+}
+
+/**
+ * Parse a Date or ISO 8601 string, rejecting invalid dates
+ */
+function toDate(value: Date | string, name: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new PipeValidationError(`Invalid ${name} date: ${String(value)}`);
+  }
+  return date;
+}
@@ -1,3 +1,5 @@
+import type { HttpResponse } from './types.js';
+
 /**
  * Standard error codes returned by the SDK
  */
@@ -29,6 +31,10 @@ export enum PipeErrorCode {
   // Network errors
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
+  FEATURE_UNAVAILABLE = 'FEATURE_UNAVAILABLE',
+
+  // Cancellation
+  ABORTED = 'ABORTED',
 
   // Unknown
   UNKNOWN = 'UNKNOWN',
@@ -46,10 +52,20 @@ export class PipeApiError extends Error {
   }
 
   static fromResponse(response: any): PipeApiError {
+    if (response.status === 402) {
+      return PipeInsufficientBalanceError.fromData(response.data);
+    }
     const message = response.data?.message || response.statusText || 'Unknown API error';
     return new PipeApiError(message, response.status, response.data?.code);
   }
 
+  /**
+   * Create the error thrown when an operation is cancelled through an AbortSignal
+   */
+  static aborted(): PipeApiError {
+    return new PipeApiError('Operation was aborted', undefined, PipeErrorCode.ABORTED);
+  }
+
   /**
    * Create a PipeApiError from an HTTP status code with user-friendly message
    */
@@ -62,10 +78,8 @@ export class PipeApiError extends Error {
           PipeErrorCode.UNAUTHORIZED
         );
       case 402:
-        return new PipeApiError(
-          'Insufficient PIPE balance. Please deposit more PIPE tokens.',
-          402,
-          PipeErrorCode.INSUFFICIENT_BALANCE
+        return new PipeInsufficientBalanceError(
+          'Insufficient PIPE balance. Please deposit more PIPE tokens.'
         );
       case 404:
         return new PipeApiError(
@@ -89,6 +103,105 @@ export class PipeApiError extends Error {
   }
 }
 
+/**
+ * Details of a 402 response (fields as sent by the API, in camelCase)
+ */
+export interface InsufficientBalanceDetails {
+  /** PIPE currently deposited */
+  depositBalancePipe?: number;
+  /** Estimated PIPE the upload needs */
+  estimatedCostPipe?: number;
+  storageQuotaGb?: number;
+  /** Upload tier, e.g. 'Normal' */
+  tier?: string;
+  /** Deposit address to send PIPE to */
+  walletAddress?: string;
+}
+
+/**
+ * Thrown when the account's PIPE balance doesn't cover an upload (HTTP 402)
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.uploadFile(account, file, 'example.txt');
+ * } catch (error) {
+ *   if (error instanceof PipeInsufficientBalanceError) {
+ *     showDeposit(`You need ${error.shortfallPipe} more PIPE, deposit to ${error.walletAddress}`);
+ *   }
+ * }
+ * ```
+ */
+export class PipeInsufficientBalanceError extends PipeApiError {
+  public depositBalancePipe?: number;
+  public estimatedCostPipe?: number;
+  public storageQuotaGb?: number;
+  public tier?: string;
+  public walletAddress?: string;
+
+  constructor(message: string, details: InsufficientBalanceDetails = {}) {
+    super(message, 402, PipeErrorCode.INSUFFICIENT_BALANCE);
+    this.name = 'PipeInsufficientBalanceError';
+    this.depositBalancePipe = details.depositBalancePipe;
+    this.estimatedCostPipe = details.estimatedCostPipe;
+    this.storageQuotaGb = details.storageQuotaGb;
+    this.tier = details.tier;
+    this.walletAddress = details.walletAddress;
+  }
+
+  /**
+   * PIPE still missing for the upload, if the API reported both amounts
+   */
+  get shortfallPipe(): number | undefined {
+    if (this.estimatedCostPipe === undefined || this.depositBalancePipe === undefined) {
+      return undefined;
+    }
+    return Math.max(0, this.estimatedCostPipe - this.depositBalancePipe);
+  }
+
+  /**
+   * Create the error from a 402 response body
+   */
+  static fromData(data: any): PipeInsufficientBalanceError {
+    const asNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+    const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    const details: InsufficientBalanceDetails = {
+      depositBalancePipe: asNumber(data?.deposit_balance_pipe),
+      estimatedCostPipe: asNumber(data?.estimated_cost_pipe),
+      storageQuotaGb: asNumber(data?.storage_quota_gb),
+      tier: asString(data?.tier),
+      walletAddress: asString(data?.wallet_address),
+    };
+
+    let message = 'Insufficient PIPE balance. Please deposit more PIPE tokens to upload files.';
+    if (details.estimatedCostPipe !== undefined) {
+      message += ` Estimated cost: ${details.estimatedCostPipe} PIPE.`;
+    }
+    if (details.walletAddress) {
+      message += ` Deposit address: ${details.walletAddress}.`;
+    }
+    return new PipeInsufficientBalanceError(message, details);
+  }
+}
+
+/**
+ * Raw HTTP failure thrown by transports
+ *
+ * Shaped like an axios error (`code`, `response.status`, `response.data`) so
+ * the client can map it the same way regardless of transport.
+ */
+export class PipeHttpError extends Error {
+  public code?: string;
+  public response?: HttpResponse;
+
+  constructor(message: string, code?: string, response?: HttpResponse) {
+    super(message);
+    this.name = 'PipeHttpError';
+    this.code = code;
+    this.response = response;
+  }
+}
+
 export class PipeValidationError extends Error {
   constructor(message: string) {
     super(message);
@@ -96,9 +209,15 @@ export class PipeValidationError extends Error {
   }
 }
 
-export class PipeSessionError extends Error {
-  constructor(message: string) {
-    super(message);
+/**
+ * Thrown when an account can no longer authenticate
+ *
+ * Extends PipeApiError with status 401, so existing `status === 401` checks
+ * keep working. The account has to log in again.
+ */
+export class PipeSessionError extends PipeApiError {
+  constructor(message: string, code: string = PipeErrorCode.SESSION_EXPIRED) {
+    super(message, 401, code);
     this.name = 'PipeSessionError';
   }
 }
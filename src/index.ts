@@ -28,13 +28,8 @@
  * const client = new PipeClient();
  * const creds = generateCredentialsFromAddress(walletAddress);
  *
- * // Try login, create if doesn't exist
- * let account;
- * try {
- *   account = await client.login(creds.username, creds.password);
- * } catch (e) {
- *   account = await client.createAccount(creds.username, creds.password);
- * }
+ * // Log in, creating the account on first use
+ * const { account, created } = await client.loginOrCreate(creds.username, creds.password);
  * ```
  *
  * @example With localStorage
@@ -56,27 +51,83 @@
 // Core client
 export { PipeClient } from './client.js';
 
+// HTTP transports
+export { AxiosTransport } from './transport/axios.js';
+export { FetchTransport } from './transport/fetch.js';
+export type { FetchTransportOptions } from './transport/fetch.js';
+
+// Network profiles
+export { NETWORKS, DEFAULT_NETWORK, resolveNetwork } from './networks.js';
+
 // Types
 export type {
   PipeConfig,
+  PipeOperation,
+  SessionUpdateReason,
+  RetryPolicy,
+  RetryConfig,
+  RetryAttempt,
+  RequestOptions,
+  HttpTransport,
+  HttpRequest,
+  HttpResponse,
+  HttpMethod,
+  HttpResponseType,
+  HttpProgressEvent,
+  PipeMiddleware,
+  MiddlewareContext,
   PipeAccount,
   Balance,
   UploadOptions,
+  DownloadOptions,
+  ProgressCallback,
+  TransferProgress,
+  TransferPhase,
+  StreamSource,
+  StreamUploadOptions,
+  ResumableUploadOptions,
+  UploadCheckpoint,
+  ChunkPart,
+  DownloadStream,
   UploadResult,
+  UploadTier,
   FileRecord,
   WalletCredentials,
+  CredentialVersion,
+  CredentialMigrationResult,
+  ChangePasswordOptions,
+  LoginOrCreateResult,
+  SessionState,
+  WaitForDepositOptions,
+  NetworkName,
+  NetworkFeature,
+  NetworkProfile,
+  NetworkConfig,
+  SelectRegionOptions,
+  RegionProbe,
+  RegionSelection,
+  TierPricing,
+  UploadCostOptions,
+  UploadCostEstimate,
+  UsageOptions,
+  TokenUsage,
   PublicLink,
   PublicLinkOptions,
+  DeleteOptions,
+  StorageAdapter,
 } from './types.js';
 
 // Errors
 export {
   PipeApiError,
   PipeValidationError,
+  PipeHttpError,
   PipeSessionError,
   PipeStorageError,
+  PipeInsufficientBalanceError,
   PipeErrorCode,
 } from './errors.js';
+export type { InsufficientBalanceDetails } from './errors.js';
 
 // Validation
 export {
@@ -96,9 +147,54 @@ export type { ValidationResult } from './validation.js';
 export {
   generateCredentialsFromAddress,
   generateCredentialsFromSignature,
+  generateVerifiedCredentials,
+  deriveCredentials,
+  LATEST_CREDENTIAL_VERSION,
 } from './utils/credentials.js';
+export type { DeriveCredentialsOptions } from './utils/credentials.js';
+
+export {
+  createSignInMessage,
+  createCredentialMessage,
+  parseSignInMessage,
+  verifySignInMessage,
+  verifyWalletSignature,
+  generateNonce,
+  decodeBase58,
+} from './utils/siws.js';
+export type {
+  SignInMessageFields,
+  SignInMessageInput,
+  CredentialMessageInput,
+  VerifySignInOptions,
+} from './utils/siws.js';
 
 export { PipeAccountStorage, PipeFileStorage } from './utils/storage.js';
+export { PipeMultiAccountStorage } from './utils/multi-account-storage.js';
+export type { AccountStorageOptions } from './utils/storage.js';
+export { EncryptedAccountStorage, STORAGE_UNLOCK_MESSAGE } from './utils/encrypted-storage.js';
+export type { EncryptedAccountStorageOptions } from './utils/encrypted-storage.js';
+export {
+  MemoryStorageAdapter,
+  NodeFileStorageAdapter,
+  IndexedDBStorageAdapter,
+} from './utils/storage-adapters.js';
+
+export { unwrapMultipart, unwrapMultipartStream } from './utils/multipart.js';
+
+export { buildUsageReport } from './utils/usage.js';
+export type {
+  UsageInterval,
+  UsageReportOptions,
+  UsageReport,
+  UsageReportPeriod,
+} from './utils/usage.js';
+
+export { DEFAULT_RETRY_POLICY } from './utils/retry.js';
+
+export { METADATA_SUFFIX } from './utils/metadata.js';
+
+export { DEFAULT_CHUNK_SIZE } from './utils/chunked.js';
 
 // React hooks (optional)
 export {
@@ -0,0 +1,67 @@
+/**
+ * Network profiles
+ *
+ * A profile bundles what differs between Pipe deployments: the API endpoint
+ * (plus optional regional alternatives), the PIPE token mint used for balance
+ * checks, and which optional endpoints the deployment supports.
+ */
+
+import type { NetworkConfig, NetworkFeature, NetworkName, NetworkProfile } from './types.js';
+import { PipeValidationError } from './errors.js';
+
+/**
+ * Built-in profiles
+ */
+export const NETWORKS: Readonly<Record<NetworkName, NetworkProfile>> = {
+  mainnet: {
+    name: 'mainnet',
+    baseUrl: 'https://us-west-01-firestarter.pipenetwork.com',
+    tokenMint: '35mhJor7qTD212YXdLkB8sRzTbaYRXmTzHTCFSDP5voJ',
+    regions: ['https://us-west-01-firestarter.pipenetwork.com'],
+    features: {
+      priorityUpload: true,
+      deposits: true,
+      // Mainnet is funded by PIPE deposits; /exchangeSolForTokens doesn't exist there
+      exchange: false,
+    },
+  },
+};
+
+/**
+ * Default network when PipeConfig.network is not set
+ */
+export const DEFAULT_NETWORK: NetworkName = 'mainnet';
+
+/**
+ * Resolve a network name or custom profile to a complete profile
+ *
+ * Custom profiles start from mainnet's features; set only what differs.
+ *
+ * @throws PipeValidationError for unknown names or a custom profile without a base URL
+ */
+export function resolveNetwork(network: NetworkConfig = DEFAULT_NETWORK): NetworkProfile {
+  if (typeof network === 'string') {
+    const profile = NETWORKS[network];
+    if (!profile) {
+      throw new PipeValidationError(`Unknown network: ${network}`);
+    }
+    return profile;
+  }
+
+  if (!network.baseUrl) {
+    throw new PipeValidationError('Custom network profiles need a baseUrl');
+  }
+  return {
+    ...network,
+    name: network.name || 'custom',
+    regions: network.regions || [network.baseUrl],
+    features: { ...NETWORKS.mainnet.features, ...network.features },
+  };
+}
+
+/**
+ * Whether a profile supports a feature
+ */
+export function hasNetworkFeature(profile: NetworkProfile, feature: NetworkFeature): boolean {
+  return profile.features[feature];
+}
@@ -7,8 +7,16 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { PipeClient } from '../client.js';
+import { PipeErrorCode } from '../errors.js';
 import type { PipeAccount, FileRecord, UploadResult, Balance } from '../types.js';
 
+/**
+ * Check whether an error is the SDK's cancellation error
+ */
+function isAborted(err: any): boolean {
+  return err?.code === PipeErrorCode.ABORTED;
+}
+
 /**
  * Hook to use a PipeClient with an account
  *
@@ -105,7 +113,7 @@ export function usePipeClient(account: PipeAccount | null, client?: PipeClient)
  * @example
  * ```tsx
  * function UploadButton({ account }: { account: PipeAccount }) {
- *   const { upload, uploading, progress, error } = useFileUpload(account);
+ *   const { upload, cancel, uploading, progress, error } = useFileUpload(account);
  *
  *   const handleUpload = async (file: File) => {
  *     const result = await upload(file, file.name);
@@ -118,6 +126,7 @@ export function usePipeClient(account: PipeAccount | null, client?: PipeClient)
  *     <div>
  *       <input type="file" onChange={(e) => handleUpload(e.target.files[0])} disabled={uploading} />
  *       {uploading && <div>Uploading: {progress}%</div>}
+ *       {uploading && <button onClick={cancel}>Cancel</button>}
  *       {error && <div>Error: {error}</div>}
  *     </div>
  *   );
@@ -129,6 +138,7 @@ export function useFileUpload(account: PipeAccount | null, client?: PipeClient)
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const upload = useCallback(
     async (
@@ -140,6 +150,9 @@ export function useFileUpload(account: PipeAccount | null, client?: PipeClient)
         return null;
       }
 
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
       setUploading(true);
       setProgress(0);
       setError(null);
@@ -147,20 +160,31 @@ export function useFileUpload(account: PipeAccount | null, client?: PipeClient)
       try {
         const result = await pipeClient.uploadFile(account, file, fileName, {
           onProgress: setProgress,
+          signal: controller.signal,
         });
         setProgress(100);
         return result;
       } catch (err: any) {
-        setError(err.message || 'Upload failed');
+        // A user cancel is not an error
+        if (!isAborted(err)) {
+          setError(err.message || 'Upload failed');
+        }
         return null;
       } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+        }
         setUploading(false);
       }
     },
     [account, pipeClient]
   );
 
-  return { upload, uploading, progress, error };
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { upload, cancel, uploading, progress, error };
 }
 
 /**
@@ -252,6 +276,7 @@ export function useFileDownload(account: PipeAccount | null, client?: PipeClient
   const [pipeClient] = useState(() => client || new PipeClient());
   const [downloading, setDownloading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
 
   const download = useCallback(
     async (fileId: string): Promise<Uint8Array | null> => {
@@ -260,23 +285,37 @@ export function useFileDownload(account: PipeAccount | null, client?: PipeClient
         return null;
       }
 
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
       setDownloading(true);
       setError(null);
 
       try {
-        const data = await pipeClient.downloadFile(account, fileId);
+        const data = await pipeClient.downloadFile(account, fileId, {
+          signal: controller.signal,
+        });
         return data;
       } catch (err: any) {
-        setError(err.message || 'Download failed');
+        if (!isAborted(err)) {
+          setError(err.message || 'Download failed');
+        }
         return null;
       } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+        }
         setDownloading(false);
       }
     },
     [account, pipeClient]
   );
 
-  return { download, downloading, error };
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { download, cancel, downloading, error };
 }
 
 /**
@@ -0,0 +1,321 @@
+/**
+ * SessionManager - keeps account tokens fresh
+ *
+ * Used internally by PipeClient. Refreshes are single-flight per account:
+ * concurrent requests after expiry share one /auth/refresh (or re-login)
+ * instead of racing and invalidating each other's refresh tokens.
+ *
+ * Token changes, password fallbacks and auth failures are reported through
+ * the PipeConfig session callbacks.
+ */
+
+import type {
+  PipeAccount,
+  PipeConfig,
+  RetryConfig,
+  SessionState,
+  SessionUpdateReason,
+} from './types.js';
+import { PipeSessionError } from './errors.js';
+import type { HttpClient } from './transport/http.js';
+import { withRetry } from './utils/retry.js';
+import { abortable, isAbortError } from './utils/abort.js';
+
+/**
+ * Default time before `tokenExpiry` at which tokens are refreshed proactively
+ */
+export const DEFAULT_REFRESH_MARGIN = 60_000;
+
+/**
+ * `userAppKey` value marking an account that only authenticates with tokens
+ */
+export const JWT_ONLY_APP_KEY = 'jwt-based';
+
+/**
+ * The account's user app key, if it holds one
+ *
+ * Accounts from login() store the access token in userAppKey, and token-only
+ * accounts store JWT_ONLY_APP_KEY; neither is the hex key the API expects.
+ */
+export function appKeyOf(account: PipeAccount): string | undefined {
+  const key = account.userAppKey;
+  const isJwt = !!key && /^[\w-]+\.[\w-]+\.[\w-]*$/.test(key);
+  return key && key !== JWT_ONLY_APP_KEY && !isJwt ? key : undefined;
+}
+
+/**
+ * Tokens returned by a refresh or login
+ */
+interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  tokenExpiry: number;
+  reason: SessionUpdateReason;
+}
+
+/**
+ * Options for SessionManager
+ */
+export interface SessionManagerOptions
+  extends Pick<
+    PipeConfig,
+    'accountStorage' | 'onSessionUpdated' | 'onPasswordFallback' | 'onAuthFailed'
+  > {
+  retry?: RetryConfig;
+  /** Refresh this many ms before tokenExpiry */
+  refreshMargin: number;
+}
+
+export class SessionManager {
+  private api: HttpClient;
+  private options: SessionManagerOptions;
+  /** In-flight refreshes, keyed by username */
+  private pending = new Map<string, Promise<TokenSet | undefined>>();
+  /** Accounts logged out while a refresh may still be in flight */
+  private loggedOut = new WeakSet<PipeAccount>();
+
+  constructor(api: HttpClient, options: SessionManagerOptions) {
+    this.api = api;
+    this.options = options;
+  }
+
+  /**
+   * Get authentication headers for API requests
+   * Refreshes the tokens first if they expire within the refresh margin
+   *
+   * @param account - Account credentials (tokens are updated in place)
+   * @param signal - Stops waiting for a refresh (the shared refresh keeps running)
+   */
+  async getAuthHeaders(
+    account: PipeAccount,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    const now = Date.now();
+    const valid = !!account.accessToken && !!account.tokenExpiry && now < account.tokenExpiry;
+
+    if (valid && now < account.tokenExpiry! - this.options.refreshMargin) {
+      return { Authorization: `Bearer ${account.accessToken}` };
+    }
+
+    try {
+      if (await this.refresh(account, signal)) {
+        return { Authorization: `Bearer ${account.accessToken}` };
+      }
+    } catch (error) {
+      // A proactive refresh failing is not fatal while the token still works
+      if (!valid || isAbortError(error)) {
+        throw error;
+      }
+    }
+
+    if (valid) {
+      return { Authorization: `Bearer ${account.accessToken}` };
+    }
+
+    // Fallback to legacy auth if we have userAppKey
+    const appKey = appKeyOf(account);
+    if (appKey) {
+      return {
+        'X-User-Id': account.userId,
+        'X-User-App-Key': appKey,
+      };
+    }
+
+    const error = new PipeSessionError('No valid authentication available');
+    this.options.onAuthFailed?.(account, error);
+    throw error;
+  }
+
+  /**
+   * Describe how the account can currently authenticate, without any requests
+   */
+  getState(account: PipeAccount): SessionState {
+    const now = Date.now();
+    if (account.accessToken && account.tokenExpiry && now < account.tokenExpiry) {
+      return now < account.tokenExpiry - this.options.refreshMargin ? 'active' : 'expiring';
+    }
+    if (account.refreshToken || (account.username && account.password)) {
+      return 'expired';
+    }
+    if (appKeyOf(account)) {
+      return 'legacy';
+    }
+    return 'none';
+  }
+
+  /**
+   * Clear the account's credentials and any persisted copy
+   *
+   * The account is updated in place; afterwards it cannot authenticate and
+   * requests with it fail with PipeSessionError.
+   */
+  async logout(account: PipeAccount): Promise<void> {
+    this.loggedOut.add(account);
+    account.accessToken = undefined;
+    account.refreshToken = undefined;
+    account.tokenExpiry = undefined;
+    account.password = '';
+    account.userAppKey = JWT_ONLY_APP_KEY;
+
+    this.options.onSessionUpdated?.(account, 'logout');
+
+    if (this.options.accountStorage?.clear) {
+      try {
+        await this.options.accountStorage.clear(account);
+      } catch (error) {
+        console.warn('Failed to clear persisted account:', error);
+      }
+    }
+  }
+
+  /**
+   * Report new tokens for an account and persist it if storage is configured
+   *
+   * Call after updating the account's tokens in place.
+   */
+  async notifyUpdated(account: PipeAccount, reason: SessionUpdateReason): Promise<void> {
+    this.options.onSessionUpdated?.(account, reason);
+
+    if (this.options.accountStorage) {
+      try {
+        await this.options.accountStorage.save(account);
+      } catch (error) {
+        console.warn('Failed to persist refreshed account:', error);
+      }
+    }
+  }
+
+  /**
+   * Get fresh headers after a request was rejected with 401
+   *
+   * @param account - Account credentials (tokens are updated in place)
+   * @param rejected - The headers the rejected request was sent with
+   * @param signal - Stops waiting for a refresh
+   * @returns New headers, or undefined if the request should not be retried
+   */
+  async reauthenticate(
+    account: PipeAccount,
+    rejected: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Record<string, string> | undefined> {
+    if (!rejected.Authorization) {
+      return undefined;
+    }
+
+    // Another request already replaced the rejected token
+    if (account.accessToken && rejected.Authorization !== `Bearer ${account.accessToken}`) {
+      return { Authorization: `Bearer ${account.accessToken}` };
+    }
+
+    if (!(await this.refresh(account, signal))) {
+      return undefined;
+    }
+    return { Authorization: `Bearer ${account.accessToken}` };
+  }
+
+  /**
+   * Refresh the account's tokens, joining an in-flight refresh for the same user
+   *
+   * @returns Whether new tokens were obtained
+   */
+  private async refresh(account: PipeAccount, signal?: AbortSignal): Promise<boolean> {
+    const key = account.username || account.userId;
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.requestTokens(account).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+
+    const tokens = await abortable(pending, signal);
+    if (!tokens || this.loggedOut.has(account)) {
+      return false;
+    }
+
+    // Callers sharing one account object only apply (and report) the tokens once
+    if (account.accessToken !== tokens.accessToken) {
+      account.accessToken = tokens.accessToken;
+      account.refreshToken = tokens.refreshToken || account.refreshToken;
+      account.tokenExpiry = tokens.tokenExpiry;
+      await this.notifyUpdated(account, tokens.reason);
+    }
+    return true;
+  }
+
+  /**
+   * Exchange the refresh token, falling back to re-login with the password
+   *
+   * Not tied to any caller's signal, since other requests may be waiting on it.
+   *
+   * @returns New tokens, or undefined if neither method is available
+   */
+  private async requestTokens(account: PipeAccount): Promise<TokenSet | undefined> {
+    const context = { username: account.username };
+
+    // Token expired, try to refresh
+    if (account.refreshToken) {
+      try {
+        const refreshResponse = await withRetry(
+          'refreshToken',
+          () =>
+            this.api.post(
+              '/auth/refresh',
+              { refresh_token: account.refreshToken },
+              { context: { operation: 'refreshToken', ...context } }
+            ),
+          this.options.retry
+        );
+
+        if (refreshResponse.status === 200) {
+          return toTokenSet(refreshResponse.data, 'refresh');
+        }
+      } catch {
+        console.warn('Token refresh failed, attempting re-login');
+      }
+    }
+
+    // Refresh failed, try to re-login
+    if (account.username && account.password) {
+      this.options.onPasswordFallback?.(account);
+      try {
+        const loginResponse = await withRetry(
+          'login',
+          () =>
+            this.api.post(
+              '/auth/login',
+              { username: account.username, password: account.password },
+              { context: { operation: 'login', ...context } }
+            ),
+          this.options.retry
+        );
+
+        if (loginResponse.status === 200) {
+          return toTokenSet(loginResponse.data, 'relogin');
+        }
+      } catch (error: any) {
+        // Only a rejected password ends the session; network and server
+        // errors are passed on so the caller can retry later
+        const status = error?.response?.status;
+        if (status !== 401 && status !== 403) {
+          throw error;
+        }
+        const sessionError = new PipeSessionError(
+          'Authentication failed - unable to refresh or re-login'
+        );
+        this.options.onAuthFailed?.(account, sessionError);
+        throw sessionError;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+function toTokenSet(tokens: any, reason: SessionUpdateReason): TokenSet {
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    tokenExpiry: Date.now() + tokens.expires_in * 1000,
+    reason,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * axios-based HTTP transport
+ *
+ * The SDK's original transport. Supports upload and download progress events
+ * in browsers and Node. axios is loaded lazily so fetch-only runtimes never evaluate it.
+ */
+
+import type { AxiosInstance } from 'axios';
+import { PipeHttpError } from '../errors.js';
+import type { HttpRequest, HttpResponse, HttpTransport } from '../types.js';
+import { iterateChunks, concatChunks } from '../utils/stream.js';
+
+function isNode(): boolean {
+  return typeof process !== 'undefined' && !!process.versions?.node;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncIterable<Uint8Array>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Flatten axios headers into a plain object with lower-cased names
+ */
+function collectHeaders(headers: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  const plain = (headers as { toJSON?: () => object })?.toJSON?.() ?? headers ?? {};
+  for (const [key, value] of Object.entries(plain)) {
+    if (value !== undefined && value !== null) {
+      result[key.toLowerCase()] = String(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * HTTP transport built on axios
+ *
+ * @example
+ * ```ts
+ * // Reuse an existing axios instance (interceptors, proxies, agents...)
+ * const client = new PipeClient({ transport: new AxiosTransport(myAxiosInstance) });
+ * ```
+ */
+export class AxiosTransport implements HttpTransport {
+  private instance?: AxiosInstance;
+
+  /**
+   * @param instance - axios instance to use (default: a fresh `axios.create()`)
+   */
+  constructor(instance?: AxiosInstance) {
+    this.instance = instance;
+  }
+
+  private async getInstance(): Promise<AxiosInstance> {
+    if (!this.instance) {
+      const { default: axios } = await import('axios');
+      this.instance = axios.create();
+    }
+    return this.instance;
+  }
+
+  async request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const instance = await this.getInstance();
+
+    let data: unknown = request.body;
+    if (isAsyncIterable(data) && !(data instanceof Uint8Array)) {
+      if (isNode()) {
+        const { Readable } = await import('stream');
+        data = Readable.from(data);
+      } else {
+        // XHR cannot stream request bodies - buffer them
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of data) chunks.push(chunk);
+        data = concatChunks(chunks);
+      }
+    }
+
+    // Browsers (XHR) cannot stream responses - buffer and replay as one chunk
+    const streamed = request.responseType === 'stream';
+    const responseType = streamed && !isNode() ? 'arraybuffer' : request.responseType;
+
+    try {
+      const response = await instance.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data,
+        responseType,
+        timeout: request.timeout,
+        signal: request.signal,
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        onUploadProgress: request.onUploadProgress
+          ? (event) => request.onUploadProgress?.({ loaded: event.loaded, total: event.total })
+          : undefined,
+        onDownloadProgress: request.onDownloadProgress && !streamed
+          ? (event) => request.onDownloadProgress?.({ loaded: event.loaded, total: event.total })
+          : undefined,
+      });
+
+      let body = response.data;
+      if (streamed) {
+        body = iterateChunks(isNode() ? body : [new Uint8Array(body)]);
+      }
+
+      return {
+        status: response.status,
+        headers: collectHeaders(response.headers),
+        data: body as T,
+      };
+    } catch (error: any) {
+      // Cancellation is surfaced as-is so callers can recognize it
+      if (error?.code === 'ERR_CANCELED') {
+        throw error;
+      }
+      throw new PipeHttpError(
+        error?.message || 'Network Error',
+        error?.code,
+        error?.response
+          ? {
+              status: error.response.status,
+              headers: collectHeaders(error.response.headers),
+              data: error.response.data,
+            }
+          : undefined
+      );
+    }
+  }
+}
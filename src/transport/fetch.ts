@@ -0,0 +1,192 @@
+/**
+ * fetch-based HTTP transport
+ *
+ * Works anywhere the WHATWG fetch API exists: browsers, Node 18+, Deno,
+ * Bun and Cloudflare Workers. No dependency on axios.
+ */
+
+import { PipeHttpError } from '../errors.js';
+import type { HttpRequest, HttpResponse, HttpTransport } from '../types.js';
+import { iterateChunks, concatChunks, toReadableStream } from '../utils/stream.js';
+
+/**
+ * Options for FetchTransport
+ */
+export interface FetchTransportOptions {
+  /** fetch implementation to use (default: globalThis.fetch) */
+  fetch?: typeof fetch;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncIterable<Uint8Array>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+function collectHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
+
+async function* emptyBody(): AsyncGenerator<Uint8Array> {
+  // No response body - nothing to yield
+}
+
+/**
+ * Read a whole response body, reporting download progress if requested
+ */
+async function readBody(response: Response, request: HttpRequest): Promise<ArrayBuffer> {
+  if (!request.onDownloadProgress || !response.body) {
+    return response.arrayBuffer();
+  }
+
+  const length = Number(response.headers.get('content-length'));
+  const total = Number.isFinite(length) && length > 0 ? length : undefined;
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for await (const chunk of iterateChunks(response.body)) {
+    chunks.push(chunk);
+    loaded += chunk.length;
+    request.onDownloadProgress({ loaded, total });
+  }
+
+  const bytes = concatChunks(chunks);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Parse a body as JSON, falling back to the raw text
+ */
+function parseBody(text: string): unknown {
+  if (!text) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * HTTP transport built on fetch
+ *
+ * Note: fetch cannot report upload progress, so `onUploadProgress` is only
+ * called once the body has been sent.
+ *
+ * @example
+ * ```ts
+ * const client = new PipeClient({ transport: new FetchTransport() });
+ * // or simply: new PipeClient({ transport: 'fetch' })
+ * ```
+ */
+export class FetchTransport implements HttpTransport {
+  private fetchImpl: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch || (typeof fetch === 'function' ? fetch : undefined);
+    if (!fetchImpl) {
+      throw new Error('fetch not available');
+    }
+    // Keep the global receiver - some runtimes throw "Illegal invocation" otherwise
+    this.fetchImpl = options.fetch ? fetchImpl : fetchImpl.bind(globalThis);
+  }
+
+  async request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const headers: Record<string, string> = { ...request.headers };
+    const init: RequestInit & { duplex?: 'half' } = { method: request.method, headers };
+
+    let uploadSize: number | undefined;
+    if (request.body instanceof Uint8Array) {
+      init.body = request.body as BodyInit;
+      uploadSize = request.body.length;
+    } else if (isAsyncIterable(request.body)) {
+      init.body = toReadableStream(request.body);
+      init.duplex = 'half';
+    } else if (request.body !== undefined) {
+      init.body = JSON.stringify(request.body);
+      headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+    }
+
+    // fetch computes these itself and browsers refuse to set them
+    delete headers['Content-Length'];
+    delete headers['User-Agent'];
+
+    // Combine the caller's signal with our timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = request.timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    if (request.signal?.aborted) controller.abort();
+    init.signal = controller.signal;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    };
+
+    let response: Response;
+    try {
+      response = await this.fetchImpl(request.url, init);
+    } catch (error: any) {
+      cleanup();
+      if (timedOut) {
+        throw new PipeHttpError(`timeout of ${request.timeout}ms exceeded`, 'ECONNABORTED');
+      }
+      if (error?.name === 'AbortError') {
+        throw error;
+      }
+      throw new PipeHttpError(error?.message || 'Network Error', 'ERR_NETWORK');
+    }
+
+    if (uploadSize !== undefined) {
+      request.onUploadProgress?.({ loaded: uploadSize, total: uploadSize });
+    }
+
+    const responseHeaders = collectHeaders(response.headers);
+
+    if (!response.ok) {
+      const data = parseBody(await response.text().catch(() => ''));
+      cleanup();
+      throw new PipeHttpError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? 'ERR_BAD_RESPONSE' : 'ERR_BAD_REQUEST',
+        { status: response.status, headers: responseHeaders, data }
+      );
+    }
+
+    try {
+      let data: unknown;
+      switch (request.responseType) {
+        case 'stream':
+          // The timeout only covers time-to-headers for streamed bodies
+          clearTimeout(timer);
+          data = response.body ? iterateChunks(response.body) : emptyBody();
+          break;
+        case 'arraybuffer':
+          data = await readBody(response, request);
+          break;
+        default:
+          data = parseBody(new TextDecoder().decode(await readBody(response, request)));
+      }
+      return { status: response.status, headers: responseHeaders, data: data as T };
+    } catch (error: any) {
+      if (timedOut) {
+        throw new PipeHttpError(`timeout of ${request.timeout}ms exceeded`, 'ECONNABORTED');
+      }
+      throw error;
+    } finally {
+      if (request.responseType !== 'stream') cleanup();
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Thin request helper used by PipeClient
+ *
+ * Applies the client-wide base URL, default headers and timeout, runs the
+ * middleware chain, then hands the request to the configured transport.
+ * Mirrors the small subset of the axios API the client needs (get/post/delete).
+ */
+
+import type {
+  HttpMethod,
+  HttpProgressEvent,
+  HttpRequest,
+  HttpResponse,
+  HttpResponseType,
+  HttpTransport,
+  MiddlewareContext,
+  PipeMiddleware,
+} from '../types.js';
+
+/**
+ * Per-request options
+ */
+export interface HttpRequestConfig {
+  /** Operation and account the request belongs to, passed to middleware */
+  context: MiddlewareContext;
+  headers?: Record<string, string>;
+  responseType?: HttpResponseType;
+  /** Overrides the client-wide timeout; 0 disables it */
+  timeout?: number;
+  signal?: AbortSignal;
+  onUploadProgress?: (event: HttpProgressEvent) => void;
+  onDownloadProgress?: (event: HttpProgressEvent) => void;
+  /** Request body for DELETE requests */
+  data?: unknown;
+}
+
+/**
+ * Client-wide defaults
+ */
+export interface HttpClientOptions {
+  baseUrl: string;
+  timeout: number;
+  headers: Record<string, string>;
+  middleware: PipeMiddleware[];
+}
+
+export class HttpClient {
+  private transport: HttpTransport;
+  private options: HttpClientOptions;
+
+  constructor(transport: HttpTransport, options: HttpClientOptions) {
+    this.transport = transport;
+    this.options = options;
+  }
+
+  get<T = any>(url: string, config: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.request<T>('GET', url, undefined, config);
+  }
+
+  post<T = any>(url: string, body: unknown, config: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.request<T>('POST', url, body, config);
+  }
+
+  delete<T = any>(url: string, config: HttpRequestConfig): Promise<HttpResponse<T>> {
+    return this.request<T>('DELETE', url, config.data, config);
+  }
+
+  /**
+   * Send subsequent requests with relative URLs to another base URL
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.options.baseUrl = baseUrl;
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    url: string,
+    body: unknown,
+    config: HttpRequestConfig
+  ): Promise<HttpResponse<T>> {
+    const { middleware } = this.options;
+    const { context } = config;
+
+    let request: HttpRequest = {
+      method,
+      url: this.resolveUrl(url),
+      headers: { ...this.options.headers, ...config.headers },
+      body,
+      responseType: config.responseType || 'json',
+      timeout: config.timeout ?? this.options.timeout,
+      signal: config.signal,
+      onUploadProgress: config.onUploadProgress,
+      onDownloadProgress: config.onDownloadProgress,
+    };
+
+    for (const hook of middleware) {
+      if (hook.onRequest) {
+        request = (await hook.onRequest(request, context)) || request;
+      }
+    }
+
+    let response: HttpResponse<T>;
+    try {
+      response = await this.transport.request<T>(request);
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        console.warn('Pipe API authentication failed - token may be expired');
+      }
+      for (let i = middleware.length - 1; i >= 0; i--) {
+        await middleware[i].onError?.(error, request, context);
+      }
+      throw error;
+    }
+
+    for (let i = middleware.length - 1; i >= 0; i--) {
+      const hook = middleware[i];
+      if (hook.onResponse) {
+        const replaced = await hook.onResponse(response, request, context);
+        response = (replaced as HttpResponse<T>) || response;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Prefix paths with the base URL; full URLs are used as-is
+   */
+  private resolveUrl(url: string): string {
+    return /^https?:\/\//.test(url) ? url : `${this.options.baseUrl}${url}`;
+  }
+}
@@ -6,8 +6,318 @@
  * Configuration for PipeClient
  */
 export interface PipeConfig {
+  /**
+   * Network profile: 'mainnet' (default) or a custom profile.
+   * Supplies the base URL, PIPE token mint and available features.
+   */
+  network?: NetworkConfig;
+  /** Overrides the network profile's base URL (selectRegion then probes only this URL) */
   baseUrl?: string;
   timeout?: number;
+  retry?: RetryConfig;
+  /**
+   * HTTP transport used for every request (default: 'axios').
+   * Use 'fetch' on Cloudflare Workers, Deno and other fetch-only runtimes.
+   */
+  transport?: HttpTransport | 'axios' | 'fetch';
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Hooks run around every HTTP request, in array order */
+  middleware?: PipeMiddleware[];
+  /**
+   * Refresh tokens this many ms before `tokenExpiry` (default: 60000).
+   * Concurrent requests share a single refresh per account.
+   */
+  tokenRefreshMargin?: number;
+  /**
+   * Save accounts here whenever their tokens change, e.g. a PipeAccountStorage.
+   * Keeps persisted sessions from going stale after a refresh, and is cleared on logout.
+   */
+  accountStorage?: {
+    save(account: PipeAccount): void | Promise<void>;
+    /** Called with the account being logged out */
+    clear?(account: PipeAccount): void | Promise<void>;
+  };
+  /** Called whenever an account's tokens change (the account is updated in place) */
+  onSessionUpdated?: (account: PipeAccount, reason: SessionUpdateReason) => void;
+  /** Called when the refresh token could not be used and the stored password is used to log in again */
+  onPasswordFallback?: (account: PipeAccount) => void;
+  /** Called when neither token refresh nor re-login could authenticate the account */
+  onAuthFailed?: (account: PipeAccount, error: Error) => void;
+}
+
+/**
+ * Why an account's tokens changed
+ * - refresh: exchanged the refresh token
+ * - relogin: logged in again with the stored password
+ * - password: the password was changed
+ * - legacy: legacy userAppKey auth was disabled for the account
+ * - logout: the account was logged out and its credentials cleared
+ */
+export type SessionUpdateReason = 'refresh' | 'relogin' | 'password' | 'legacy' | 'logout';
+
+/**
+ * How an account can currently authenticate
+ * - active: the access token is valid
+ * - expiring: the access token is valid but will be refreshed on next use
+ * - expired: the access token expired, but a refresh token or password can renew it
+ * - legacy: no tokens, authenticated with the legacy userAppKey
+ * - none: nothing left to authenticate with; log in again
+ */
+export type SessionState = 'active' | 'expiring' | 'expired' | 'legacy' | 'none';
+
+/**
+ * Built-in network profiles
+ */
+export type NetworkName = 'mainnet';
+
+/**
+ * Optional endpoints that not every network provides
+ * - priorityUpload: POST /priorityUpload
+ * - deposits: PIPE deposits and POST /syncDeposits
+ * - exchange: POST /exchangeSolForTokens
+ */
+export type NetworkFeature = 'priorityUpload' | 'deposits' | 'exchange';
+
+/**
+ * Everything that differs between Pipe deployments
+ */
+export interface NetworkProfile {
+  name: string;
+  baseUrl: string;
+  /** PIPE token mint checked by getBalance; without one, `pipe` is always 0 */
+  tokenMint?: string;
+  /** Regional endpoints selectRegion picks from (default: just baseUrl) */
+  regions?: string[];
+  features: Record<NetworkFeature, boolean>;
+}
+
+/**
+ * A built-in network name, or a custom profile
+ * Custom profiles default to mainnet's features.
+ */
+export type NetworkConfig =
+  | NetworkName
+  | (Omit<NetworkProfile, 'name' | 'features'> & {
+      name?: string;
+      features?: Partial<Record<NetworkFeature, boolean>>;
+    });
+
+/**
+ * Options for selectRegion
+ */
+export interface SelectRegionOptions extends RequestOptions {
+  /** Endpoints to probe (default: the network profile's regions, or PipeConfig.baseUrl if set) */
+  endpoints?: string[];
+  /** Path requested on each endpoint (default: '/') */
+  path?: string;
+  /** Per-endpoint probe timeout in ms (default: 5000) */
+  timeout?: number;
+}
+
+/**
+ * Probe result for one endpoint
+ */
+export interface RegionProbe {
+  url: string;
+  /** Responded without a server error */
+  healthy: boolean;
+  /** Round-trip time in ms, if the endpoint responded */
+  latency?: number;
+  error?: string;
+}
+
+/**
+ * Result of selectRegion
+ */
+export interface RegionSelection {
+  /** The endpoint now used by the client */
+  url: string;
+  /** All probes, fastest healthy endpoint first */
+  probes: RegionProbe[];
+}
+
+/**
+ * HTTP methods used by the Pipe API
+ */
+export type HttpMethod = 'GET' | 'POST' | 'DELETE';
+
+/**
+ * How a transport should decode the response body
+ * - json: parsed JSON (falls back to text)
+ * - arraybuffer: ArrayBuffer
+ * - stream: AsyncIterable<Uint8Array>
+ */
+export type HttpResponseType = 'json' | 'arraybuffer' | 'stream';
+
+/**
+ * Upload or download progress reported by a transport
+ */
+export interface HttpProgressEvent {
+  loaded: number;
+  total?: number;
+}
+
+/**
+ * A single HTTP request handed to a transport
+ */
+export interface HttpRequest {
+  method: HttpMethod;
+  /** Absolute URL (or relative to the page origin in browsers) */
+  url: string;
+  headers: Record<string, string>;
+  /** Plain object (sent as JSON), Uint8Array, or AsyncIterable<Uint8Array> (streamed) */
+  body?: unknown;
+  responseType: HttpResponseType;
+  /** Timeout in ms; 0 disables it */
+  timeout: number;
+  signal?: AbortSignal;
+  onUploadProgress?: (event: HttpProgressEvent) => void;
+  /** Only reported for 'json' and 'arraybuffer' responses */
+  onDownloadProgress?: (event: HttpProgressEvent) => void;
+}
+
+/**
+ * Response returned by a transport
+ */
+export interface HttpResponse<T = any> {
+  status: number;
+  /** Header names are lower-cased */
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Pluggable HTTP transport
+ *
+ * Implementations must reject non-2xx responses with a PipeHttpError carrying
+ * the response, and network failures with a PipeHttpError carrying a `code`
+ * (e.g. ECONNRESET, ERR_NETWORK), so retries and error mapping work.
+ */
+export interface HttpTransport {
+  request<T = any>(request: HttpRequest): Promise<HttpResponse<T>>;
+}
+
+/**
+ * Names of the operations PipeClient performs against the API
+ */
+export type PipeOperation =
+  | 'createAccount'
+  | 'login'
+  | 'refreshToken'
+  | 'getBalance'
+  | 'uploadFile'
+  | 'uploadStream'
+  | 'downloadFile'
+  | 'downloadStream'
+  | 'deleteFile'
+  | 'createPublicLink'
+  | 'deletePublicLink'
+  | 'publicDownload'
+  | 'exchangeSolForPipe'
+  | 'changePassword'
+  | 'getTierPricing'
+  | 'getUsage'
+  | 'syncDeposits'
+  | 'selectRegion';
+
+/**
+ * Retry behaviour for a single operation
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry in ms, doubled on every subsequent retry */
+  baseDelay: number;
+  /** Upper bound for a single delay in ms */
+  maxDelay: number;
+  /** Randomization applied to each delay */
+  jitter: 'none' | 'full' | 'equal';
+  /** HTTP status codes that are retried */
+  retryableStatuses: number[];
+  /** Network error codes (e.g. ECONNRESET) that are retried */
+  retryableErrorCodes: string[];
+}
+
+/**
+ * Information passed to RetryConfig.onRetry before each retry
+ */
+export interface RetryAttempt {
+  operation: PipeOperation;
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay in ms before the next attempt */
+  delay: number;
+  error: unknown;
+}
+
+/**
+ * Retry configuration for PipeClient
+ *
+ * Non-idempotent operations (createAccount, uploadFile, deleteFile, exchangeSolForPipe,
+ * createPublicLink, token refresh) are only retried when the request provably never
+ * reached the server. uploadStream is never retried because a stream cannot be replayed.
+ */
+export interface RetryConfig extends Partial<RetryPolicy> {
+  /** Per-operation overrides; `false` disables retries for that operation */
+  methods?: Partial<Record<PipeOperation, Partial<RetryPolicy> | false>>;
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * What a request is being made for
+ */
+export interface MiddlewareContext {
+  operation: PipeOperation;
+  /** Username of the account the request acts on (absent for public downloads) */
+  username?: string;
+}
+
+/**
+ * Hooks run around every HTTP request PipeClient sends, including token
+ * refreshes, re-logins and each part of a resumable upload. Retried requests
+ * pass through the hooks once per attempt.
+ *
+ * `onRequest` hooks run in array order, `onResponse` and `onError` hooks in
+ * reverse order. Any hook may be async; a hook that throws fails the request.
+ */
+export interface PipeMiddleware {
+  /** Inspect or replace the outgoing request (e.g. add a correlation ID header) */
+  onRequest?: (
+    request: HttpRequest,
+    context: MiddlewareContext
+  ) => HttpRequest | void | Promise<HttpRequest | void>;
+  /** Inspect or replace a successful response */
+  onResponse?: (
+    response: HttpResponse,
+    request: HttpRequest,
+    context: MiddlewareContext
+  ) => HttpResponse | void | Promise<HttpResponse | void>;
+  /** Observe a failed request; the original error is rethrown afterwards */
+  onError?: (
+    error: unknown,
+    request: HttpRequest,
+    context: MiddlewareContext
+  ) => void | Promise<void>;
+}
+
+/**
+ * Options accepted by every PipeClient operation
+ */
+export interface RequestOptions {
+  /** Cancels the operation; it then rejects with PipeErrorCode.ABORTED */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for changePassword
+ */
+export interface ChangePasswordOptions extends RequestOptions {
+  /**
+   * Enforce the strong password rules /auth/login applies (see validatePassword).
+   * Default: true, since /auth/set-password accepts passwords login later rejects.
+   */
+  strict?: boolean;
 }
 
 /**
@@ -33,13 +343,206 @@ export interface Balance {
   publicKey: string;
 }
 
+/**
+ * Options for waitForDeposit
+ */
+export interface WaitForDepositOptions extends RequestOptions {
+  /** PIPE balance to wait for (default: any increase over the balance at the start) */
+  minPipe?: number;
+  /** Give up after this many ms (default: 300000) */
+  timeout?: number;
+  /** Delay between balance checks in ms (default: 10000) */
+  pollInterval?: number;
+}
+
+/**
+ * Storage pricing for one upload tier (from GET /getTierPricing)
+ */
+export interface TierPricing {
+  /** Tier name as reported by the API, e.g. 'normal' or 'priority' */
+  name: string;
+  /** List price in PIPE per GB */
+  basePrice: number;
+  /** Current price in PIPE per GB (varies with demand) */
+  currentPrice: number;
+  /** Concurrent uploads allowed per user */
+  concurrency?: number;
+  /** Users currently on this tier */
+  activeUsers?: number;
+  /** Parallel parts for multipart uploads */
+  multipartConcurrency?: number;
+  /** Multipart part size in MB */
+  chunkSizeMb?: number;
+}
+
+/**
+ * Options for estimateUploadCost
+ */
+export interface UploadCostOptions extends RequestOptions {
+  /** Estimate for the priority tier, like UploadOptions.priority */
+  priority?: boolean;
+  /** Pricing from a previous getTierPricing call; skips the request */
+  pricing?: TierPricing[];
+}
+
+/**
+ * Options for getUsage
+ */
+export interface UsageOptions extends RequestOptions {
+  /** Start of the period (Date or ISO 8601 string) */
+  from?: Date | string;
+  /** End of the period (Date or ISO 8601 string) */
+  to?: Date | string;
+}
+
+/**
+ * PIPE spent and data transferred in a period (from GET /api/token-usage)
+ */
+export interface TokenUsage {
+  /** Period covered, as reported by the API (falls back to the requested range) */
+  from?: Date;
+  to?: Date;
+  /** Total PIPE spent */
+  totalPipe: number;
+  /** PIPE spent on storage (uploads) */
+  storagePipe: number;
+  /** PIPE spent on bandwidth (downloads) */
+  bandwidthPipe: number;
+  bytesUploaded: number;
+  bytesDownloaded: number;
+}
+
+/**
+ * Estimated cost of an upload
+ */
+export interface UploadCostEstimate {
+  tier: UploadTier;
+  sizeBytes: number;
+  /** Size in GB (2^30 bytes), the unit prices are quoted in */
+  sizeGb: number;
+  /** Current PIPE per GB for the tier */
+  pricePerGb: number;
+  /** Estimated cost in PIPE */
+  costPipe: number;
+}
+
+/**
+ * Upload tier - priority uploads are routed to /priorityUpload
+ */
+export type UploadTier = 'normal' | 'priority';
+
+/**
+ * Stage of a transfer reported through progress events
+ * - hashing: computing or verifying blake3 hashes
+ * - uploading / downloading: file bytes on the wire
+ * - finalizing: writing the chunk manifest or metadata sidecar
+ */
+export type TransferPhase = 'hashing' | 'uploading' | 'downloading' | 'finalizing';
+
+/**
+ * Detailed progress of an upload or download
+ */
+export interface TransferProgress {
+  phase: TransferPhase;
+  /** Bytes processed so far in this phase */
+  loaded: number;
+  /** Total bytes, if known */
+  total?: number;
+  /** 0-100, if the total is known */
+  percent?: number;
+  /** Throughput since the previous event, in bytes per second */
+  bytesPerSecond: number;
+  /** Throughput since the phase started, in bytes per second */
+  averageBytesPerSecond: number;
+  /** Estimated seconds remaining in this phase, if the total is known */
+  eta?: number;
+}
+
+/**
+ * Progress callback
+ *
+ * `percent` is kept as the first argument for compatibility: it tracks only the
+ * uploading/downloading phase, never decreases, and is 0 while the total size
+ * is unknown. `progress` carries the full details of every phase.
+ */
+export type ProgressCallback = (percent: number, progress: TransferProgress) => void;
+
 /**
  * File upload options
  */
-export interface UploadOptions {
+export interface UploadOptions extends RequestOptions {
+  /** Use the priority upload endpoint (faster processing, higher cost) */
   priority?: boolean;
+  /** Arbitrary JSON metadata, stored as a sidecar object next to the file */
   metadata?: Record<string, any>;
-  onProgress?: (progress: number) => void;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * File download options
+ */
+export interface DownloadOptions extends RequestOptions {
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Streaming upload source
+ * Accepts a web ReadableStream, a Node Readable, or any async iterable of chunks
+ */
+export type StreamSource = ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+/**
+ * Streaming upload options
+ */
+export interface StreamUploadOptions extends UploadOptions {
+  /** Total size in bytes, if known - enables progress percentages and Content-Length */
+  size?: number;
+}
+
+/**
+ * Streaming download body
+ * A web ReadableStream that can also be consumed with `for await`
+ */
+export type DownloadStream = ReadableStream<Uint8Array> & AsyncIterable<Uint8Array>;
+
+/**
+ * A part of a resumable upload that the server has confirmed
+ */
+export interface ChunkPart {
+  /** Object name the part was uploaded under */
+  name: string;
+  size: number;
+  blake3Hash: string;
+}
+
+/**
+ * Serializable progress of a resumable upload
+ *
+ * Persist it (e.g. JSON in localStorage or on disk) from `onCheckpoint` and pass
+ * it back via `ResumableUploadOptions.checkpoint` to continue after a restart.
+ */
+export interface UploadCheckpoint {
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  tier: UploadTier;
+  /** Confirmed parts, in order */
+  parts: ChunkPart[];
+}
+
+/**
+ * Resumable upload options
+ */
+export interface ResumableUploadOptions extends UploadOptions {
+  /** Size of each part in bytes (default 8 MiB); ignored when resuming */
+  chunkSize?: number;
+  /**
+   * Checkpoint from an interrupted upload of the same file. The upload resumes
+   * on the checkpoint's tier; a conflicting `priority` is rejected.
+   */
+  checkpoint?: UploadCheckpoint;
+  /** Called after every confirmed part with an updated checkpoint */
+  onCheckpoint?: (checkpoint: UploadCheckpoint) => void;
 }
 
 /**
@@ -51,6 +554,12 @@ export interface UploadResult {
   size: number;
   blake3Hash: string;
   uploadedAt: Date;
+  /** Which upload tier handled the file */
+  tier: UploadTier;
+  /** Stored as parts plus a manifest (uploadResumable); pass it on to deleteFile */
+  chunked?: boolean;
+  /** Metadata persisted alongside the file, if provided */
+  metadata?: Record<string, any>;
 }
 
 /**
@@ -62,6 +571,8 @@ export interface FileRecord {
   size: number;
   uploadedAt: Date;
   blake3Hash: string;
+  /** Stored as parts plus a manifest (uploadResumable); pass it on to deleteFile */
+  chunked?: boolean;
   metadata?: Record<string, any>;
 }
 
@@ -73,6 +584,32 @@ export interface WalletCredentials {
   password: string;
 }
 
+/**
+ * Wallet credential derivation scheme
+ * - 1: sha256 (original scheme, guessable from the wallet address)
+ * - 2: scrypt with a per-app pepper
+ */
+export type CredentialVersion = 1 | 2;
+
+/**
+ * Result of PipeClient.migrateCredentials
+ */
+export interface CredentialMigrationResult {
+  /** Account logged in with the new credentials */
+  account: PipeAccount;
+  /** False if the account already used the new credentials */
+  migrated: boolean;
+}
+
+/**
+ * Result of PipeClient.loginOrCreate
+ */
+export interface LoginOrCreateResult {
+  account: PipeAccount;
+  /** True if the account did not exist and was created by this call */
+  created: boolean;
+}
+
 /**
  * Public link information for sharing files
  */
@@ -82,10 +619,34 @@ export interface PublicLink {
   shareUrl: string;
 }
 
+/**
+ * Options for deleteFile
+ */
+export interface DeleteOptions extends RequestOptions {
+  /**
+   * The file was uploaded with uploadResumable (see UploadResult.chunked):
+   * read its manifest first and delete every part too
+   */
+  chunked?: boolean;
+}
+
 /**
  * Options for creating a public link
  */
-export interface PublicLinkOptions {
+export interface PublicLinkOptions extends RequestOptions {
   customTitle?: string;
   customDescription?: string;
 }
+
+/**
+ * Key-value backend for PipeAccountStorage and PipeFileStorage
+ *
+ * Same shape as the Web Storage API, so `window.localStorage` is a valid
+ * adapter. Methods are synchronous; asynchronous backends keep an in-memory
+ * copy and write through in the background.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
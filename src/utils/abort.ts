@@ -0,0 +1,79 @@
+/**
+ * AbortSignal helpers
+ *
+ * Cancellation surfaces differently depending on where it happens (axios
+ * CanceledError, fetch AbortError, our own checks); these helpers let the
+ * client recognize all of them and wait in an abortable way.
+ */
+
+import { PipeApiError, PipeErrorCode } from '../errors.js';
+
+/**
+ * Check whether an error was caused by an aborted request
+ */
+export function isAbortError(error: any): boolean {
+  return (
+    error?.code === 'ERR_CANCELED' ||
+    error?.name === 'AbortError' ||
+    error?.name === 'CanceledError' ||
+    (error instanceof PipeApiError && error.code === PipeErrorCode.ABORTED)
+  );
+}
+
+/**
+ * Throw the SDK's cancellation error if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw PipeApiError.aborted();
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal is aborted
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(PipeApiError.aborted());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(PipeApiError.aborted());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal is aborted
+ *
+ * The underlying work keeps running; use this when it is shared with other
+ * callers that must not be cancelled.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(PipeApiError.aborted());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(PipeApiError.aborted());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Chunked upload manifests
+ *
+ * Resumable uploads store a file as several part objects plus a small JSON
+ * manifest under the original file name. Downloads detect the manifest and
+ * reassemble the parts transparently.
+ */
+
+import { blake3 } from '@noble/hashes/blake3';
+import type { ChunkPart, UploadCheckpoint } from '../types.js';
+
+/**
+ * Default size of each part (8 MiB)
+ */
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Every manifest starts with this exact byte sequence, so downloads can
+ * detect one without parsing arbitrary file contents
+ */
+const MANIFEST_PREFIX = '{"type":"firestarter/chunked-manifest"';
+const MANIFEST_VERSION = 1;
+
+/**
+ * Number of bytes needed to decide whether a body is a manifest
+ */
+export const MANIFEST_PREFIX_LENGTH = MANIFEST_PREFIX.length;
+
+/**
+ * Manifest stored under the original file name
+ */
+export interface ChunkManifest {
+  type: 'firestarter/chunked-manifest';
+  version: number;
+  fileName: string;
+  size: number;
+  blake3Hash: string;
+  chunkSize: number;
+  parts: ChunkPart[];
+}
+
+/**
+ * Name of the object holding part `index` of `fileName`
+ */
+export function chunkFileName(fileName: string, index: number): string {
+  return `${fileName}.chunk-${index.toString().padStart(5, '0')}`;
+}
+
+/**
+ * Hex encoded blake3 hash of a chunk
+ */
+export function hashChunk(data: Uint8Array): string {
+  return Array.from(blake3(data, { dkLen: 32 }), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/**
+ * Serialize a manifest for a completed checkpoint
+ */
+export function encodeChunkManifest(checkpoint: UploadCheckpoint, blake3Hash: string): Uint8Array {
+  const manifest: ChunkManifest = {
+    type: 'firestarter/chunked-manifest',
+    version: MANIFEST_VERSION,
+    fileName: checkpoint.fileName,
+    size: checkpoint.size,
+    blake3Hash,
+    chunkSize: checkpoint.chunkSize,
+    parts: checkpoint.parts,
+  };
+  return new TextEncoder().encode(JSON.stringify(manifest));
+}
+
+/**
+ * Check whether the head of a body is a chunk manifest
+ *
+ * @param head - The first bytes of the body (at least MANIFEST_PREFIX.length to be conclusive)
+ */
+export function isChunkManifest(head: Uint8Array): boolean {
+  if (head.length < MANIFEST_PREFIX.length) return false;
+  for (let i = 0; i < MANIFEST_PREFIX.length; i++) {
+    if (head[i] !== MANIFEST_PREFIX.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Parse a manifest body
+ *
+ * @throws Error if the body is not a valid manifest
+ */
+export function decodeChunkManifest(data: Uint8Array): ChunkManifest {
+  const manifest = JSON.parse(new TextDecoder().decode(data)) as ChunkManifest;
+  if (manifest?.version !== MANIFEST_VERSION || !Array.isArray(manifest.parts)) {
+    throw new Error(`Unsupported chunk manifest version: ${manifest?.version}`);
+  }
+  return manifest;
+}
+
+/**
+ * Parse a body as the chunk manifest of `fileName`, if it is one
+ *
+ * Only a well-formed manifest written for this very file counts: its parts
+ * must carry the names uploadResumable derives from the file name, and their
+ * sizes must add up. Anything else - including a plain file that merely
+ * starts like a manifest - is treated as file content, so a crafted file can
+ * never point downloads or deletes at other objects.
+ *
+ * @param data - The complete body
+ * @param fileName - Name the body was stored under (default: the name recorded in the manifest)
+ * @returns The manifest, or null if the body is a plain file
+ */
+export function parseChunkManifest(data: Uint8Array, fileName?: string): ChunkManifest | null {
+  if (!isChunkManifest(data)) return null;
+
+  let manifest: ChunkManifest;
+  try {
+    manifest = decodeChunkManifest(data);
+  } catch {
+    return null;
+  }
+
+  const name = fileName ?? manifest.fileName;
+  if (typeof name !== 'string' || manifest.fileName !== name) return null;
+
+  let total = 0;
+  for (let i = 0; i < manifest.parts.length; i++) {
+    const part = manifest.parts[i];
+    const valid =
+      !!part && part.name === chunkFileName(name, i) && Number.isSafeInteger(part.size) && part.size >= 0;
+    if (!valid) return null;
+    total += part.size;
+  }
+  return total === manifest.size ? manifest : null;
+}
@@ -3,10 +3,56 @@
  *
  * These utilities help generate deterministic credentials from wallet addresses.
  * This is OPTIONAL - developers can manage credentials however they want.
+ *
+ * Derivation is versioned: v1 (sha256, the original scheme) is kept so existing
+ * accounts keep working; v2 derives the password with scrypt and a per-app
+ * pepper. Usernames are identical across versions, so an account can be moved
+ * to v2 with PipeClient.migrateCredentials.
  */
 
 import { sha256 } from '@noble/hashes/sha256';
-import type { WalletCredentials } from '../types.js';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import type { CredentialVersion, WalletCredentials } from '../types.js';
+import { PipeValidationError } from '../errors.js';
+import { createCredentialMessage, parseSignInMessage, verifySignInMessage } from './siws.js';
+import type { VerifySignInOptions } from './siws.js';
+
+/**
+ * Newest derivation scheme, used by deriveCredentials by default
+ */
+export const LATEST_CREDENTIAL_VERSION: CredentialVersion = 2;
+
+/**
+ * scrypt cost parameters for v2 (~32 MiB of memory per derivation)
+ */
+const V2_SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+/**
+ * Options for deriveCredentials
+ */
+export interface DeriveCredentialsOptions {
+  /** Wallet address the credentials belong to */
+  walletAddress: string;
+  /** Wallet signature (raw or base64) - derives from the address alone if omitted */
+  signature?: string | Uint8Array;
+  /** Derivation scheme (default: LATEST_CREDENTIAL_VERSION) */
+  version?: CredentialVersion;
+  /**
+   * App-specific secret mixed into v2 passwords, so credentials can't be
+   * recomputed from a public wallet address alone. Keep it stable - changing
+   * it changes every derived password.
+   */
+  pepper?: string;
+}
+
+/**
+ * Base64 encode raw signature bytes
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
 
 /**
  * Generate deterministic credentials from a wallet address
@@ -26,14 +72,8 @@ import type { WalletCredentials } from '../types.js';
  * // creds.username: 'pipe_7xKXtg2C'
  * // creds.password: 'Fs_abc123...'
  *
- * // Try to login with generated credentials
- * let account;
- * try {
- *   account = await client.login(creds.username, creds.password);
- * } catch (e) {
- *   // Account doesn't exist, create it
- *   account = await client.createAccount(creds.username, creds.password);
- * }
+ * // Log in, creating the account on first use
+ * const { account, created } = await client.loginOrCreate(creds.username, creds.password);
  * ```
  */
 export function generateCredentialsFromAddress(walletAddress: string): WalletCredentials {
@@ -64,7 +104,10 @@ export function generateCredentialsFromAddress(walletAddress: string): WalletCre
  * This is MORE secure than address-based generation because it requires the user
  * to actually sign a message, proving they own the wallet.
  *
- * @param signature - Base64 encoded signature
+ * The signature is NOT verified here - use generateVerifiedCredentials when the
+ * signature comes from an untrusted source.
+ *
+ * @param signature - Raw signature bytes, or the same bytes base64 encoded
  * @param walletAddress - Wallet address (for additional entropy)
  * @returns Deterministic username and password
  *
@@ -72,32 +115,25 @@ export function generateCredentialsFromAddress(walletAddress: string): WalletCre
  * ```ts
  * // In your app with wallet integration
  * const message = `Authenticate Pipe Storage\n\nWallet: ${walletAddress}\n\nThis creates your storage account.`;
- * const signature = await wallet.signMessage(message);
- *
- * const creds = generateCredentialsFromSignature(
- *   btoa(String.fromCharCode(...signature)),
- *   walletAddress
- * );
- *
- * // Try login/create
- * let account;
- * try {
- *   account = await client.login(creds.username, creds.password);
- * } catch (e) {
- *   account = await client.createAccount(creds.username, creds.password);
- * }
+ * const signature = await wallet.signMessage(new TextEncoder().encode(message));
+ *
+ * const creds = generateCredentialsFromSignature(signature, walletAddress);
+ *
+ * // Log in, creating the account on first use
+ * const { account, created } = await client.loginOrCreate(creds.username, creds.password);
  * ```
  */
 export function generateCredentialsFromSignature(
-  signature: string,
+  signature: string | Uint8Array,
   walletAddress: string
 ): WalletCredentials {
-  if (!signature || !walletAddress) {
+  if (!signature || signature.length === 0 || !walletAddress) {
     throw new Error('Signature and wallet address required');
   }
 
-  // Combine signature and wallet for entropy
-  const combined = `${signature}:${walletAddress}`;
+  // Combine signature and wallet for entropy (raw bytes hash the same as their base64 form)
+  const encoded = typeof signature === 'string' ? signature : toBase64(signature);
+  const combined = `${encoded}:${walletAddress}`;
 
   // Generate username from signature
   const usernameHash = sha256(new TextEncoder().encode(`username:${combined}`));
@@ -115,3 +151,110 @@ export function generateCredentialsFromSignature(
 
   return { username, password };
 }
+
+/**
+ * Verify a signed credential message, then derive credentials from its signature
+ *
+ * The message must be exactly what createCredentialMessage builds for its
+ * domain and wallet, signed by `walletAddress`. That message never changes and
+ * ed25519 signatures are deterministic, so the same wallet gets the same
+ * credentials on every device. Sign-in messages with a random nonce are
+ * rejected: they would give different credentials on every sign-in.
+ *
+ * @param message - The exact message text that was signed
+ * @param signature - Raw 64-byte signature
+ * @param walletAddress - Base58 wallet address that must have signed the message
+ * @param options - Additional expectations (domain)
+ * @returns Deterministic username and password
+ * @throws PipeValidationError if the message or signature does not check out
+ *
+ * @example
+ * ```ts
+ * const message = createCredentialMessage({
+ *   domain: window.location.host,
+ *   address: walletAddress,
+ *   statement: 'Unlock Pipe Storage',
+ * });
+ * const signature = await wallet.signMessage(new TextEncoder().encode(message));
+ *
+ * const creds = await generateVerifiedCredentials(message, signature, walletAddress, {
+ *   domain: window.location.host,
+ * });
+ * ```
+ */
+export async function generateVerifiedCredentials(
+  message: string,
+  signature: Uint8Array,
+  walletAddress: string,
+  options: Omit<VerifySignInOptions, 'address' | 'nonce'> = {}
+): Promise<WalletCredentials> {
+  if (!walletAddress) {
+    throw new PipeValidationError('Wallet address required');
+  }
+  const fields = parseSignInMessage(message);
+  if (!fields || message !== createCredentialMessage(fields)) {
+    throw new PipeValidationError(
+      'Credentials can only be derived from a message built with createCredentialMessage'
+    );
+  }
+  await verifySignInMessage(message, signature, { ...options, address: walletAddress });
+  return generateCredentialsFromSignature(signature, walletAddress);
+}
+
+/**
+ * Derive credentials with a specific scheme version
+ *
+ * v1 matches generateCredentialsFromAddress / generateCredentialsFromSignature.
+ * v2 keeps the same username but derives the password with scrypt, salted with
+ * the app's pepper; it takes a few hundred milliseconds by design.
+ *
+ * @param options - Wallet address, optional signature, version and pepper
+ * @returns Deterministic username and password
+ *
+ * @example
+ * ```ts
+ * const creds = await deriveCredentials({
+ *   walletAddress,
+ *   signature,
+ *   version: 2,
+ *   pepper: 'my-app-2024',
+ * });
+ * ```
+ */
+export async function deriveCredentials(
+  options: DeriveCredentialsOptions
+): Promise<WalletCredentials> {
+  const { walletAddress, signature, version = LATEST_CREDENTIAL_VERSION } = options;
+
+  const v1 =
+    signature !== undefined
+      ? generateCredentialsFromSignature(signature, walletAddress)
+      : generateCredentialsFromAddress(walletAddress);
+
+  if (version === 1) {
+    return v1;
+  }
+  if (version !== 2) {
+    throw new PipeValidationError(`Unsupported credential version: ${version}`);
+  }
+  if (!options.pepper) {
+    throw new PipeValidationError('A pepper is required for v2 credentials');
+  }
+
+  const secret =
+    signature !== undefined
+      ? `${typeof signature === 'string' ? signature : toBase64(signature)}:${walletAddress}`
+      : walletAddress;
+
+  const passwordHash = await scryptAsync(
+    new TextEncoder().encode(`password:${secret}`),
+    new TextEncoder().encode(`firestarter:v2:${options.pepper}`),
+    { ...V2_SCRYPT_PARAMS, dkLen: 32 }
+  );
+  const passwordHex = Array.from(passwordHash, (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+  const password = 'Fs2_' + passwordHex.slice(0, 28); // Fs2_<28 hex chars> = 32 chars total
+
+  return { username: v1.username, password };
+}
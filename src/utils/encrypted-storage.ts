@@ -0,0 +1,320 @@
+/**
+ * Encrypted localStorage wrapper for Pipe accounts
+ *
+ * Same role as PipeAccountStorage, but the account is encrypted at rest with
+ * AES-GCM (WebCrypto). The key is derived from a user passphrase (PBKDF2) or
+ * a wallet signature (HKDF) and only kept in memory while unlocked.
+ */
+
+import type { PipeAccount, StorageAdapter } from '../types';
+import { PipeStorageError } from '../errors.js';
+import { toStoredAccount, isValidStoredAccount } from './storage.js';
+import { resolveStorageAdapter } from './storage-adapters.js';
+import type { AccountStorageOptions } from './storage.js';
+
+const STORAGE_KEY = 'firestarter_pipe_account_encrypted';
+const RECORD_VERSION = 1;
+const DEFAULT_ITERATIONS = 310_000;
+const HKDF_INFO = 'firestarter-account-storage';
+
+/**
+ * Message to have the wallet sign for `unlockWithSignature`
+ * The signature must be deterministic, so always sign exactly this message.
+ */
+export const STORAGE_UNLOCK_MESSAGE = 'Unlock Firestarter account storage';
+
+/**
+ * How the encryption key is derived
+ */
+type KeyDerivation = 'pbkdf2' | 'hkdf';
+
+/**
+ * What is written to storage
+ */
+interface EncryptedRecord {
+  version: number;
+  kdf: KeyDerivation;
+  iterations?: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Options for EncryptedAccountStorage
+ */
+export interface EncryptedAccountStorageOptions extends AccountStorageOptions {
+  /** Storage key (default: 'firestarter_pipe_account_encrypted') */
+  storageKey?: string;
+  /** PBKDF2 iterations for passphrase keys (default: 310000) */
+  iterations?: number;
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new PipeStorageError('WebCrypto not available');
+  }
+  return subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase or signature
+ */
+async function deriveKey(
+  kdf: KeyDerivation,
+  secret: Uint8Array,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const subtle = getSubtle();
+  const baseKey = await subtle.importKey(
+    'raw',
+    secret as BufferSource,
+    kdf === 'pbkdf2' ? 'PBKDF2' : 'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  const params =
+    kdf === 'pbkdf2'
+      ? { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations }
+      : {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: salt as BufferSource,
+          info: new TextEncoder().encode(HKDF_INFO),
+        };
+
+  return subtle.deriveKey(params, baseKey, { name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Encrypted wrapper for storing Pipe account credentials in localStorage
+ *
+ * @example
+ * ```ts
+ * const storage = new EncryptedAccountStorage({ tokensOnly: true });
+ *
+ * // Passphrase...
+ * await storage.unlock(passphrase);
+ * // ...or a wallet signature
+ * await storage.unlockWithSignature(
+ *   await wallet.signMessage(new TextEncoder().encode(STORAGE_UNLOCK_MESSAGE))
+ * );
+ *
+ * await storage.save(account);
+ * const saved = await storage.load();
+ *
+ * // Forget the key (e.g. when the app goes idle)
+ * storage.lock();
+ * ```
+ */
+export class EncryptedAccountStorage {
+  private storage: StorageAdapter;
+  private storageKey: string;
+  private tokensOnly: boolean;
+  private iterations: number;
+  private key?: CryptoKey;
+  private kdf?: KeyDerivation;
+  private salt?: Uint8Array;
+
+  constructor(options: EncryptedAccountStorageOptions = {}) {
+    this.storage = resolveStorageAdapter(options.adapter);
+    this.storageKey = options.storageKey || STORAGE_KEY;
+    this.tokensOnly = !!options.tokensOnly;
+    this.iterations = options.iterations || DEFAULT_ITERATIONS;
+  }
+
+  /**
+   * Whether a key is loaded and the account can be read or written
+   */
+  get isUnlocked(): boolean {
+    return this.key !== undefined;
+  }
+
+  /**
+   * Unlock with a user passphrase (PBKDF2-SHA256)
+   *
+   * @throws PipeStorageError if the passphrase does not decrypt the stored account
+   */
+  async unlock(passphrase: string): Promise<void> {
+    if (!passphrase) {
+      throw new PipeStorageError('Passphrase required');
+    }
+    await this.open('pbkdf2', new TextEncoder().encode(passphrase));
+  }
+
+  /**
+   * Unlock with a wallet signature of STORAGE_UNLOCK_MESSAGE (HKDF-SHA256)
+   *
+   * @throws PipeStorageError if the signature does not decrypt the stored account
+   */
+  async unlockWithSignature(signature: Uint8Array): Promise<void> {
+    if (!signature || signature.length === 0) {
+      throw new PipeStorageError('Signature required');
+    }
+    await this.open('hkdf', signature);
+  }
+
+  /**
+   * Drop the key from memory; save and load fail until unlocked again
+   */
+  lock(): void {
+    this.key = undefined;
+    this.kdf = undefined;
+    this.salt = undefined;
+  }
+
+  /**
+   * Encrypt and save account to storage
+   */
+  async save(account: PipeAccount): Promise<void> {
+    const key = this.requireKey();
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(
+      JSON.stringify(toStoredAccount(account, this.tokensOnly))
+    );
+    const ciphertext = await getSubtle().encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      plaintext as BufferSource
+    );
+
+    const record: EncryptedRecord = {
+      version: RECORD_VERSION,
+      kdf: this.kdf!,
+      iterations: this.kdf === 'pbkdf2' ? this.iterations : undefined,
+      salt: toBase64(this.salt!),
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext)),
+    };
+
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(record));
+    } catch (error) {
+      console.error('Failed to save account to storage:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load and decrypt account from storage
+   * Returns null if no account is saved
+   *
+   * @throws PipeStorageError if the storage is locked
+   */
+  async load(): Promise<PipeAccount | null> {
+    const key = this.requireKey();
+    const record = this.readRecord();
+    if (!record) return null;
+
+    let account: PipeAccount;
+    try {
+      account = await this.decrypt(key, record);
+    } catch (error) {
+      console.error('Failed to decrypt account from storage:', error);
+      return null;
+    }
+
+    if (!isValidStoredAccount(account, this.tokensOnly)) {
+      console.warn('Invalid account data in storage, clearing');
+      this.clear();
+      return null;
+    }
+
+    return account;
+  }
+
+  /**
+   * Clear saved account from storage
+   */
+  clear(): void {
+    try {
+      this.storage.removeItem(this.storageKey);
+    } catch (error) {
+      console.error('Failed to clear account from storage:', error);
+    }
+  }
+
+  /**
+   * Check if an account is saved (works while locked)
+   */
+  hasAccount(): boolean {
+    return this.storage.getItem(this.storageKey) !== null;
+  }
+
+  /**
+   * Derive the key, checking it against the stored account if there is one
+   */
+  private async open(kdf: KeyDerivation, secret: Uint8Array): Promise<void> {
+    const record = this.readRecord();
+    if (record && record.kdf !== kdf) {
+      throw new PipeStorageError(
+        record.kdf === 'pbkdf2'
+          ? 'Stored account is locked with a passphrase'
+          : 'Stored account is locked with a wallet signature'
+      );
+    }
+
+    const salt = record
+      ? fromBase64(record.salt)
+      : globalThis.crypto.getRandomValues(new Uint8Array(16));
+    const iterations = record?.iterations || this.iterations;
+    const key = await deriveKey(kdf, secret, salt, iterations);
+
+    if (record) {
+      try {
+        await this.decrypt(key, record);
+      } catch {
+        throw new PipeStorageError('Wrong passphrase or signature');
+      }
+    }
+
+    this.key = key;
+    this.kdf = kdf;
+    this.salt = salt;
+    this.iterations = iterations;
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) {
+      throw new PipeStorageError('Account storage is locked - call unlock() first');
+    }
+    return this.key;
+  }
+
+  private readRecord(): EncryptedRecord | null {
+    const data = this.storage.getItem(this.storageKey);
+    if (!data) return null;
+
+    try {
+      const record = JSON.parse(data) as EncryptedRecord;
+      return record.version === RECORD_VERSION ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async decrypt(key: CryptoKey, record: EncryptedRecord): Promise<PipeAccount> {
+    const plaintext = await getSubtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(record.iv) as BufferSource },
+      key,
+      fromBase64(record.ciphertext) as BufferSource
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as PipeAccount;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Metadata sidecar encoding
+ *
+ * Pipe Network stores raw bytes only, so UploadOptions.metadata is persisted
+ * as a small JSON object uploaded next to the file (`<fileName>.meta.json`).
+ * The sidecar carries the full FileRecord, so other devices can rebuild it.
+ */
+
+import type { FileRecord } from '../types.js';
+
+/**
+ * Suffix appended to a file name to form its metadata sidecar name
+ */
+export const METADATA_SUFFIX = '.meta.json';
+
+const SIDECAR_VERSION = 1;
+
+interface MetadataSidecar {
+  version: number;
+  fileId: string;
+  fileName: string;
+  size: number;
+  blake3Hash: string;
+  uploadedAt: string;
+  chunked?: boolean;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Name of the sidecar object holding metadata for `fileName`
+ */
+export function metadataFileName(fileName: string): string {
+  return `${fileName}${METADATA_SUFFIX}`;
+}
+
+/**
+ * Check whether a file name refers to a metadata sidecar
+ */
+export function isMetadataFileName(fileName: string): boolean {
+  return fileName.endsWith(METADATA_SUFFIX);
+}
+
+/**
+ * Serialize a file record and its metadata into sidecar bytes
+ */
+export function encodeMetadataSidecar(
+  record: Omit<FileRecord, 'metadata'>,
+  metadata: Record<string, any>
+): Uint8Array {
+  const sidecar: MetadataSidecar = {
+    version: SIDECAR_VERSION,
+    fileId: record.fileId,
+    fileName: record.fileName,
+    size: record.size,
+    blake3Hash: record.blake3Hash,
+    uploadedAt: record.uploadedAt.toISOString(),
+    chunked: record.chunked || undefined,
+    metadata,
+  };
+  return new TextEncoder().encode(JSON.stringify(sidecar));
+}
+
+/**
+ * Parse sidecar bytes back into a FileRecord
+ *
+ * @throws Error if the bytes are not a valid sidecar
+ */
+export function decodeMetadataSidecar(data: Uint8Array): FileRecord {
+  const sidecar = JSON.parse(new TextDecoder().decode(data)) as MetadataSidecar;
+
+  if (typeof sidecar !== 'object' || sidecar === null || !sidecar.fileName) {
+    throw new Error('Invalid metadata sidecar');
+  }
+
+  return {
+    fileId: sidecar.fileId,
+    fileName: sidecar.fileName,
+    size: sidecar.size,
+    blake3Hash: sidecar.blake3Hash,
+    uploadedAt: new Date(sidecar.uploadedAt),
+    chunked: sidecar.chunked || undefined,
+    metadata: sidecar.metadata || {},
+  };
+}
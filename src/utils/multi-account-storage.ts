@@ -0,0 +1,230 @@
+/**
+ * localStorage wrapper for several Pipe accounts
+ *
+ * Same role as PipeAccountStorage, but keeps any number of accounts keyed by
+ * username (e.g. a personal and a team account) and remembers which one is
+ * active. Each account's uploaded-file index lives under its own
+ * PipeFileStorage.forAccount key, so switching never mixes file records.
+ */
+
+import type { PipeAccount, StorageAdapter } from '../types';
+import { PipeStorageError } from '../errors.js';
+import { PipeFileStorage, toStoredAccount, isValidStoredAccount } from './storage.js';
+import { resolveStorageAdapter } from './storage-adapters.js';
+import type { AccountStorageOptions } from './storage.js';
+
+const STORAGE_KEY = 'firestarter_pipe_accounts';
+
+/**
+ * What is written to storage
+ */
+interface StoredAccounts {
+  active: string | null;
+  accounts: Record<string, PipeAccount>;
+}
+
+/**
+ * Wrapper for storing several Pipe accounts in localStorage
+ *
+ * @example
+ * ```ts
+ * const accounts = new PipeMultiAccountStorage();
+ *
+ * // Save accounts after login; the first one saved becomes active
+ * accounts.save(await client.login('personal_user', personalPassword));
+ * accounts.save(await client.login('team_account', teamPassword));
+ *
+ * // Switch
+ * accounts.setActive('team_account');
+ * const account = accounts.getActive();
+ *
+ * // File records of the active account only
+ * const files = accounts.files().listFiles();
+ *
+ * // Keep refreshed tokens saved for every account, and remove logged-out ones
+ * // (their file records are kept)
+ * const client = new PipeClient({ accountStorage: accounts });
+ * ```
+ */
+export class PipeMultiAccountStorage {
+  private storage: StorageAdapter;
+  private adapter?: StorageAdapter;
+  private storageKey: string;
+  private tokensOnly: boolean;
+
+  constructor(storageKey: string = STORAGE_KEY, options: AccountStorageOptions = {}) {
+    this.storage = resolveStorageAdapter(options.adapter);
+    this.adapter = options.adapter;
+    this.storageKey = storageKey;
+    this.tokensOnly = !!options.tokensOnly;
+  }
+
+  /**
+   * Save or update an account
+   * The first account saved becomes the active one.
+   */
+  save(account: PipeAccount): void {
+    const data = this.read();
+    data.accounts[account.username] = toStoredAccount(account, this.tokensOnly);
+    if (!data.active) {
+      data.active = account.username;
+    }
+    this.write(data);
+  }
+
+  /**
+   * Load an account by username, or the active account if none is given
+   * Returns null if no such account is saved
+   */
+  load(username?: string): PipeAccount | null {
+    const data = this.read();
+    const key = username ?? data.active;
+    return (key && data.accounts[key]) || null;
+  }
+
+  /**
+   * List all saved accounts
+   */
+  list(): PipeAccount[] {
+    return Object.values(this.read().accounts);
+  }
+
+  /**
+   * Get the active account
+   */
+  getActive(): PipeAccount | null {
+    return this.load();
+  }
+
+  /**
+   * Get the username of the active account
+   */
+  getActiveUsername(): string | null {
+    return this.read().active;
+  }
+
+  /**
+   * Make a saved account the active one
+   *
+   * @throws PipeStorageError if the account is not saved
+   */
+  setActive(username: string): PipeAccount {
+    const data = this.read();
+    const account = data.accounts[username];
+    if (!account) {
+      throw new PipeStorageError(`No saved account for ${username}`);
+    }
+    data.active = username;
+    this.write(data);
+    return account;
+  }
+
+  /**
+   * Remove an account and its file records
+   * If it was active, the next saved account (if any) becomes active.
+   *
+   * Pipe has no file listing, so the records are the only copy of the file
+   * names needed for downloads - only call this when they are no longer needed.
+   */
+  remove(username: string): void {
+    const account = this.drop(username);
+    if (account) {
+      this.files(account).clear();
+    }
+  }
+
+  /**
+   * Remove one account, or all accounts if none is given
+   *
+   * Lets this storage be used as PipeConfig.accountStorage: logging out an
+   * account removes only that account. File records are always kept, so the
+   * files can still be found after logging back in.
+   */
+  clear(account?: PipeAccount): void {
+    if (account) {
+      this.drop(account.username);
+      return;
+    }
+
+    try {
+      this.storage.removeItem(this.storageKey);
+    } catch (error) {
+      console.error('Failed to clear accounts from storage:', error);
+    }
+  }
+
+  /**
+   * Check if an account is saved (any account if no username is given)
+   */
+  hasAccount(username?: string): boolean {
+    const { accounts } = this.read();
+    return username ? username in accounts : Object.keys(accounts).length > 0;
+  }
+
+  /**
+   * File records of an account (default: the active account)
+   * Each account uses its own PipeFileStorage.forAccount key in the same adapter.
+   *
+   * @throws PipeStorageError if there is no such account
+   */
+  files(
+    account: PipeAccount | string | null = this.getActive(),
+    maxFiles?: number
+  ): PipeFileStorage {
+    const target = typeof account === 'string' ? this.load(account) : account;
+    if (!target) {
+      throw new PipeStorageError('No account to read file records for');
+    }
+    return PipeFileStorage.forAccount(target, maxFiles, this.adapter);
+  }
+
+  /**
+   * Remove an account from the saved accounts, keeping its file records
+   *
+   * @returns The removed account, or null if it was not saved
+   */
+  private drop(username: string): PipeAccount | null {
+    const data = this.read();
+    const account = data.accounts[username];
+    if (!account) return null;
+
+    delete data.accounts[username];
+    if (data.active === username) {
+      data.active = Object.keys(data.accounts)[0] || null;
+    }
+    this.write(data);
+    return account;
+  }
+
+  private read(): StoredAccounts {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (!raw) return { active: null, accounts: {} };
+
+      const data = JSON.parse(raw) as StoredAccounts;
+      const accounts: Record<string, PipeAccount> = {};
+      for (const [username, account] of Object.entries(data.accounts || {})) {
+        if (isValidStoredAccount(account, this.tokensOnly)) {
+          accounts[username] = account;
+        } else {
+          console.warn(`Invalid account data in storage for ${username}, skipping`);
+        }
+      }
+
+      const active = data.active && accounts[data.active] ? data.active : null;
+      return { active: active || Object.keys(accounts)[0] || null, accounts };
+    } catch (error) {
+      console.error('Failed to load accounts from storage:', error);
+      return { active: null, accounts: {} };
+    }
+  }
+
+  private write(data: StoredAccounts): void {
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to save accounts to storage:', error);
+      throw error;
+    }
+  }
+}
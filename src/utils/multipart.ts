@@ -0,0 +1,193 @@
+/**
+ * Multipart envelope unwrapping
+ *
+ * Pipe Network returns downloads wrapped in a multipart/form-data envelope:
+ *
+ * ```
+ * --------------------------{boundary}
+ * Content-Disposition: form-data; name="file"; filename="test.txt"
+ * Content-Type: text/plain
+ *
+ * {file content here}
+ * --------------------------{boundary}--
+ * ```
+ *
+ * These helpers strip the envelope and return the file bytes of the first part.
+ * Bodies that are not multipart are passed through untouched; at most
+ * MAX_HEADER_BYTES are buffered while deciding.
+ */
+
+const CRLF = new Uint8Array([13, 10]);
+const LF = new Uint8Array([10]);
+const HEADER_END_CRLF = new Uint8Array([13, 10, 13, 10]);
+const HEADER_END_LF = new Uint8Array([10, 10]);
+const DASH = 45;
+
+/**
+ * Envelope headers longer than this mean the body is not an envelope
+ */
+const MAX_HEADER_BYTES = 8192;
+
+/**
+ * Find the first index of `needle` in `haystack`, starting at `from`
+ */
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from: number = 0): number {
+  const last = haystack.length - needle.length;
+  outer: for (let i = from; i <= last; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
+
+/**
+ * Extract the boundary parameter from a Content-Type header
+ */
+export function parseBoundary(contentType?: string | null): string | null {
+  if (!contentType || !/^multipart\//i.test(contentType.trim())) return null;
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!match) return null;
+  return (match[1] || match[2]).trim();
+}
+
+/**
+ * Locate the envelope in the head of a body
+ *
+ * With a boundary from the Content-Type, the body must start with that
+ * delimiter. Without one (a mislabelled response), the body is only treated
+ * as an envelope if it starts with a `--` line followed by a
+ * `Content-Disposition: form-data` header, so files that merely start with
+ * `--` (SQL, YAML front matter) are never cut down.
+ *
+ * @returns The delimiter line and offset where the part content begins,
+ *          `null` if the body is not multipart, or `undefined` if more
+ *          bytes are needed to decide
+ */
+function locatePart(
+  head: Uint8Array,
+  boundary: string | null
+): { delimiter: Uint8Array; contentStart: number; lineBreak: Uint8Array } | null | undefined {
+  if (head.length < 2) return undefined;
+  if (head[0] !== DASH || head[1] !== DASH) return null;
+
+  const firstLineEnd = indexOf(head, LF);
+  if (firstLineEnd < 0) return head.length > MAX_HEADER_BYTES ? null : undefined;
+
+  const lineBreak = firstLineEnd > 0 && head[firstLineEnd - 1] === 13 ? CRLF : LF;
+  const firstLine = head.subarray(0, firstLineEnd + 1 - lineBreak.length);
+  let delimiter: Uint8Array;
+
+  if (boundary) {
+    delimiter = new TextEncoder().encode(`--${boundary}`);
+    if (indexOf(firstLine, delimiter) !== 0) return null;
+  } else {
+    const secondLineEnd = indexOf(head, LF, firstLineEnd + 1);
+    if (secondLineEnd < 0) return head.length > MAX_HEADER_BYTES ? null : undefined;
+    const header = new TextDecoder().decode(head.subarray(firstLineEnd + 1, secondLineEnd));
+    if (!/^content-disposition:\s*form-data\b/i.test(header)) return null;
+    delimiter = head.slice(0, firstLine.length);
+  }
+
+  const headerEnd = lineBreak === CRLF
+    ? indexOf(head, HEADER_END_CRLF, firstLineEnd - 1)
+    : indexOf(head, HEADER_END_LF, firstLineEnd);
+  if (headerEnd < 0) return head.length > MAX_HEADER_BYTES ? null : undefined;
+
+  const contentStart = headerEnd + (lineBreak === CRLF ? HEADER_END_CRLF : HEADER_END_LF).length;
+  return { delimiter, contentStart, lineBreak };
+}
+
+/**
+ * Strip the multipart envelope from a fully buffered body
+ *
+ * @param data - Raw response body
+ * @param contentType - Response Content-Type header, if available
+ * @returns The file content of the first part (or `data` if not multipart)
+ */
+export function unwrapMultipart(data: Uint8Array, contentType?: string | null): Uint8Array {
+  const part = locatePart(data, parseBoundary(contentType));
+  if (!part) return data;
+
+  const closing = concat(part.lineBreak, part.delimiter);
+  const contentEnd = indexOf(data, closing, part.contentStart);
+  return data.subarray(part.contentStart, contentEnd < 0 ? data.length : contentEnd);
+}
+
+/**
+ * Strip the multipart envelope from a body while it streams
+ *
+ * Only enough bytes to detect the closing delimiter are held back at any time.
+ *
+ * @param chunks - Raw response body chunks
+ * @param contentType - Response Content-Type header, if available
+ */
+export async function* unwrapMultipartStream(
+  chunks: AsyncIterable<Uint8Array>,
+  contentType?: string | null
+): AsyncGenerator<Uint8Array> {
+  const boundary = parseBoundary(contentType);
+  const iterator = chunks[Symbol.asyncIterator]();
+
+  try {
+    // Phase 1: buffer until the part headers have been read
+    let buffer: Uint8Array = new Uint8Array(0);
+    let part: ReturnType<typeof locatePart>;
+    while ((part = locatePart(buffer, boundary)) === undefined) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        if (buffer.length > 0) yield buffer;
+        return;
+      }
+      buffer = concat(buffer, value);
+    }
+
+    // Not multipart - pass everything through
+    if (part === null) {
+      if (buffer.length > 0) yield buffer;
+      while (true) {
+        const { done, value } = await iterator.next();
+        if (done) return;
+        yield value;
+      }
+    }
+
+    // Phase 2: emit content, holding back a tail that may contain the closing delimiter
+    const closing = concat(part.lineBreak, part.delimiter);
+    buffer = buffer.subarray(part.contentStart);
+
+    while (true) {
+      const end = indexOf(buffer, closing);
+      if (end >= 0) {
+        if (end > 0) yield buffer.subarray(0, end);
+        return;
+      }
+
+      const safe = buffer.length - (closing.length - 1);
+      if (safe > 0) {
+        yield buffer.subarray(0, safe);
+        buffer = buffer.slice(safe);
+      }
+
+      const { done, value } = await iterator.next();
+      if (done) {
+        // Truncated envelope - emit whatever content remains
+        if (buffer.length > 0) yield buffer;
+        return;
+      }
+      buffer = concat(buffer, value);
+    }
+  } finally {
+    // Also closes the body when the consumer stops early
+    await iterator.return?.();
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Transfer progress reporting
+ *
+ * Turns raw byte counts into TransferProgress events with throughput and ETA.
+ * Throughput and ETA are tracked per phase and reset when the phase changes.
+ * The legacy `percent` argument follows the byte transfer only and never goes
+ * down, so progress bars built on it don't jump back during hashing or
+ * finalizing.
+ */
+
+import type { ProgressCallback, TransferPhase } from '../types.js';
+
+/**
+ * Report `loaded` of `total` bytes (if known) for a phase
+ */
+export type ProgressReporter = (phase: TransferPhase, loaded: number, total?: number) => void;
+
+/**
+ * Create a reporter that forwards progress to a user callback
+ *
+ * @param onProgress - User callback (a no-op reporter is returned if missing)
+ */
+export function createProgressReporter(onProgress: ProgressCallback | undefined): ProgressReporter {
+  if (!onProgress) {
+    return () => undefined;
+  }
+
+  let phase: TransferPhase | undefined;
+  let phaseStart = 0;
+  let phaseStartLoaded = 0;
+  let lastTime = 0;
+  let lastLoaded = 0;
+  let bytesPerSecond = 0;
+  let transferPercent = 0;
+
+  return (nextPhase, loaded, total) => {
+    const now = Date.now();
+
+    if (nextPhase !== phase) {
+      phase = nextPhase;
+      phaseStart = lastTime = now;
+      phaseStartLoaded = lastLoaded = loaded;
+      bytesPerSecond = 0;
+    } else if (now > lastTime) {
+      bytesPerSecond = Math.max(0, ((loaded - lastLoaded) * 1000) / (now - lastTime));
+      lastTime = now;
+      lastLoaded = loaded;
+    }
+
+    const elapsed = now - phaseStart;
+    const averageBytesPerSecond = elapsed > 0 ? ((loaded - phaseStartLoaded) * 1000) / elapsed : 0;
+
+    let percent: number | undefined;
+    let eta: number | undefined;
+    if (total !== undefined) {
+      percent = total > 0 ? Math.min(100, Math.round((loaded * 100) / total)) : 100;
+      if (averageBytesPerSecond > 0) {
+        eta = Math.max(0, (total - loaded) / averageBytesPerSecond);
+      }
+    }
+
+    if ((phase === 'uploading' || phase === 'downloading') && percent !== undefined) {
+      transferPercent = Math.max(transferPercent, percent);
+    }
+
+    onProgress(transferPercent, {
+      phase,
+      loaded,
+      total: total,
+      percent,
+      bytesPerSecond,
+      averageBytesPerSecond,
+      eta,
+    });
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Retry with exponential backoff and jitter
+ *
+ * Used internally by PipeClient around every HTTP call. Errors are inspected
+ * in their raw (axios-shaped) form: `error.response.status` and `error.code`.
+ */
+
+import type { PipeOperation, RetryConfig, RetryPolicy } from '../types.js';
+import { abortableDelay } from './abort.js';
+
+/**
+ * Default retry policy applied to every operation
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 5000,
+  jitter: 'full',
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableErrorCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+    'ERR_NETWORK',
+  ],
+};
+
+/**
+ * Operations whose side effects must not be repeated
+ *
+ * Uploads may already have been accepted (and charged) when the response is
+ * lost, and a repeated delete of a deleted file reports FILE_NOT_FOUND.
+ */
+const NON_IDEMPOTENT_OPERATIONS: ReadonlySet<PipeOperation> = new Set<PipeOperation>([
+  'createAccount',
+  'refreshToken',
+  'uploadFile',
+  'deleteFile',
+  'exchangeSolForPipe',
+  'createPublicLink',
+]);
+
+/**
+ * Failures where the request cannot have been processed by the server
+ * (connection never established, or explicitly rate limited)
+ */
+const SAFE_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+const SAFE_STATUSES = [429];
+
+/**
+ * Whether repeating an operation is free of side effects
+ */
+export function isIdempotent(operation: PipeOperation): boolean {
+  return !NON_IDEMPOTENT_OPERATIONS.has(operation);
+}
+
+/**
+ * Resolve the effective policy for an operation
+ */
+export function resolveRetryPolicy(
+  config: RetryConfig | undefined,
+  operation: PipeOperation
+): RetryPolicy {
+  const { methods, onRetry: _onRetry, ...base } = config || {};
+  const override = methods?.[operation];
+
+  if (override === false) {
+    return { ...DEFAULT_RETRY_POLICY, ...base, maxAttempts: 1 };
+  }
+
+  return { ...DEFAULT_RETRY_POLICY, ...base, ...override };
+}
+
+/**
+ * Decide whether a failed attempt may be retried
+ *
+ * @param error - Raw error thrown by the HTTP call
+ * @param policy - Effective retry policy
+ * @param idempotent - Whether repeating the request is side-effect free
+ */
+export function isRetryableError(error: any, policy: RetryPolicy, idempotent: boolean): boolean {
+  const status: number | undefined = error?.response?.status;
+  const code: string | undefined = error?.code;
+
+  if (!idempotent) {
+    if (status !== undefined) return SAFE_STATUSES.includes(status);
+    return code !== undefined && SAFE_ERROR_CODES.includes(code);
+  }
+
+  if (status !== undefined) return policy.retryableStatuses.includes(status);
+  return code !== undefined && policy.retryableErrorCodes.includes(code);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - Effective retry policy
+ * @param error - The failure, used to honor a Retry-After header
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, error?: any): number {
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+
+  let delay: number;
+  switch (policy.jitter) {
+    case 'full':
+      delay = Math.random() * exponential;
+      break;
+    case 'equal':
+      delay = exponential / 2 + Math.random() * (exponential / 2);
+      break;
+    default:
+      delay = exponential;
+  }
+
+  const retryAfter = Number(error?.response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    delay = Math.max(delay, Math.min(policy.maxDelay, retryAfter * 1000));
+  }
+
+  return Math.round(delay);
+}
+
+/**
+ * Per-call retry options
+ */
+export interface RetryCallOptions {
+  /** Override the operation's default idempotency */
+  idempotent?: boolean;
+  /** Stops retrying (and waiting between attempts) once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `fn`, retrying failures according to the operation's policy
+ *
+ * @param operation - Operation name, used for per-method overrides and idempotency
+ * @param fn - The request to perform
+ * @param config - Retry configuration from PipeConfig
+ * @param options - Idempotency override and abort signal
+ */
+export async function withRetry<T>(
+  operation: PipeOperation,
+  fn: () => Promise<T>,
+  config: RetryConfig | undefined,
+  options: RetryCallOptions = {}
+): Promise<T> {
+  const policy = resolveRetryPolicy(config, operation);
+  const idempotent = options.idempotent ?? isIdempotent(operation);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        attempt >= policy.maxAttempts ||
+        options.signal?.aborted ||
+        !isRetryableError(error, policy, idempotent)
+      ) {
+        throw error;
+      }
+
+      const delay = computeRetryDelay(attempt, policy, error);
+      config?.onRetry?.({ operation, attempt, delay, error });
+      await abortableDelay(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Sign-In With Solana (SIWS) helpers
+ *
+ * Builds the canonical, domain-bound sign-in message a wallet is asked to
+ * sign, parses it back, and verifies the ed25519 signature against the
+ * base58 wallet address before any credentials are derived from it.
+ *
+ * Two kinds of message are built here: sign-in messages (random nonce and
+ * timestamp, for proving wallet ownership once) and credential messages
+ * (fixed per domain and wallet, so their signature - and anything derived
+ * from it - is the same on every device).
+ *
+ * Signature verification uses WebCrypto Ed25519 (Node 18.4+, current browsers).
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import { PipeValidationError } from '../errors.js';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+
+/**
+ * Fields of a sign-in message
+ */
+export interface SignInMessageFields {
+  /** Domain requesting the sign-in (e.g. 'app.example.com') */
+  domain: string;
+  /** Base58 wallet address */
+  address: string;
+  /** Human readable statement shown to the user */
+  statement?: string;
+  uri?: string;
+  version?: string;
+  /** 'mainnet', 'devnet', ... */
+  chainId?: string;
+  nonce?: string;
+  /** ISO 8601 timestamps */
+  issuedAt?: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+/**
+ * Input for createSignInMessage
+ * `nonce` and `issuedAt` are filled in when omitted.
+ */
+export type SignInMessageInput = SignInMessageFields;
+
+/**
+ * Input for createCredentialMessage
+ * Nonce and timestamps are not accepted: the message must never change.
+ */
+export type CredentialMessageInput = Pick<
+  SignInMessageFields,
+  'domain' | 'address' | 'statement' | 'uri' | 'chainId' | 'resources'
+>;
+
+/**
+ * Sign-in message fields that hold a single line of text after a label
+ */
+type LabeledField =
+  | 'uri'
+  | 'version'
+  | 'chainId'
+  | 'nonce'
+  | 'issuedAt'
+  | 'expirationTime'
+  | 'notBefore'
+  | 'requestId';
+
+/**
+ * Expectations checked by verifySignInMessage
+ */
+export interface VerifySignInOptions {
+  /** Reject messages for any other domain */
+  domain?: string;
+  /** Reject messages for any other address */
+  address?: string;
+  /** Reject messages carrying any other nonce */
+  nonce?: string;
+  /** Reference time for expiration checks (default: now) */
+  now?: Date;
+}
+
+/**
+ * Generate a random alphanumeric nonce
+ */
+export function generateNonce(length: number = 16): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (byte) => BASE58_ALPHABET[byte % BASE58_ALPHABET.length]).join('');
+}
+
+/**
+ * Decode a base58 string (Solana addresses and signatures)
+ *
+ * @throws PipeValidationError on characters outside the base58 alphabet
+ */
+export function decodeBase58(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new PipeValidationError(`Invalid base58 character: ${char}`);
+    }
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Leading '1's encode leading zero bytes
+  for (const char of value) {
+    if (char !== '1') break;
+    bytes.push(0);
+  }
+  return new Uint8Array(bytes.reverse());
+}
+
+/**
+ * Build the canonical sign-in message text
+ *
+ * @example
+ * ```ts
+ * const message = createSignInMessage({
+ *   domain: window.location.host,
+ *   address: wallet.publicKey.toBase58(),
+ *   statement: 'Sign in to Pipe Storage',
+ *   uri: window.location.origin,
+ * });
+ * const signature = await wallet.signMessage(new TextEncoder().encode(message));
+ * ```
+ */
+export function createSignInMessage(input: SignInMessageInput): string {
+  if (!input.domain || !input.address) {
+    throw new PipeValidationError('Domain and wallet address required');
+  }
+  if (/[\r\n]/.test(input.domain) || /[\r\n]/.test(input.statement || '')) {
+    throw new PipeValidationError('Domain and statement must be a single line');
+  }
+
+  return formatSignInMessage({
+    ...input,
+    version: input.version || '1',
+    nonce: input.nonce || generateNonce(),
+    issuedAt: input.issuedAt || new Date().toISOString(),
+  });
+}
+
+/**
+ * Build the fixed message to derive wallet credentials from
+ *
+ * Same shape as a sign-in message, but the nonce is derived from the domain
+ * and address and there are no timestamps, so a wallet signs the exact same
+ * text on every device. Use it only for generateVerifiedCredentials; use
+ * createSignInMessage (random nonce) for proving ownership to a backend.
+ *
+ * @example
+ * ```ts
+ * const message = createCredentialMessage({
+ *   domain: window.location.host,
+ *   address: wallet.publicKey.toBase58(),
+ *   statement: 'Unlock Pipe Storage',
+ * });
+ * const signature = await wallet.signMessage(new TextEncoder().encode(message));
+ * ```
+ */
+export function createCredentialMessage(input: CredentialMessageInput): string {
+  const { domain, address, statement, uri, chainId, resources } = input;
+  if (!domain || !address) {
+    throw new PipeValidationError('Domain and wallet address required');
+  }
+  if (/[\r\n]/.test(domain) || /[\r\n]/.test(statement || '')) {
+    throw new PipeValidationError('Domain and statement must be a single line');
+  }
+
+  const digest = sha256(new TextEncoder().encode(`firestarter:credentials:${domain}:${address}`));
+  const nonce = Array.from(digest.subarray(0, 8), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+
+  return formatSignInMessage({
+    domain,
+    address,
+    statement,
+    uri,
+    version: '1',
+    chainId,
+    nonce,
+    resources,
+  });
+}
+
+/**
+ * Format fields into message text without filling in defaults
+ */
+function formatSignInMessage(fields: SignInMessageFields): string {
+  let message = `${fields.domain}${HEADER_SUFFIX}\n${fields.address}`;
+
+  if (fields.statement) {
+    message += `\n\n${fields.statement}`;
+  }
+
+  const lines: string[] = [];
+  if (fields.uri) lines.push(`URI: ${fields.uri}`);
+  if (fields.version) lines.push(`Version: ${fields.version}`);
+  if (fields.chainId) lines.push(`Chain ID: ${fields.chainId}`);
+  if (fields.nonce) lines.push(`Nonce: ${fields.nonce}`);
+  if (fields.issuedAt) lines.push(`Issued At: ${fields.issuedAt}`);
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  if (fields.requestId) lines.push(`Request ID: ${fields.requestId}`);
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map((resource) => `- ${resource}`));
+  }
+
+  if (lines.length > 0) {
+    message += `\n\n${lines.join('\n')}`;
+  }
+  return message;
+}
+
+/**
+ * Parse sign-in message text back into its fields
+ *
+ * @returns The fields, or null if the text is not a canonical sign-in message
+ */
+export function parseSignInMessage(message: string): SignInMessageFields | null {
+  const [header, address, ...rest] = message.split('\n');
+  if (!header?.endsWith(HEADER_SUFFIX) || !address) {
+    return null;
+  }
+
+  const fields: SignInMessageFields = {
+    domain: header.slice(0, -HEADER_SUFFIX.length),
+    address,
+  };
+
+  const labels: Record<string, LabeledField> = {
+    'URI': 'uri',
+    'Version': 'version',
+    'Chain ID': 'chainId',
+    'Nonce': 'nonce',
+    'Issued At': 'issuedAt',
+    'Expiration Time': 'expirationTime',
+    'Not Before': 'notBefore',
+    'Request ID': 'requestId',
+  };
+
+  let inResources = false;
+  for (const line of rest) {
+    if (inResources && line.startsWith('- ')) {
+      fields.resources!.push(line.slice(2));
+      continue;
+    }
+    inResources = false;
+
+    if (line === 'Resources:') {
+      fields.resources = [];
+      inResources = true;
+      continue;
+    }
+
+    const separator = line.indexOf(': ');
+    const key = separator > 0 ? labels[line.slice(0, separator)] : undefined;
+    if (key) {
+      fields[key] = line.slice(separator + 2);
+    } else if (line && !fields.statement && !fields.uri && !fields.version && !fields.nonce) {
+      fields.statement = line;
+    }
+  }
+
+  // Only accept messages that round-trip exactly
+  return formatSignInMessage(fields) === message ? fields : null;
+}
+
+/**
+ * Verify an ed25519 signature against a base58 wallet address
+ *
+ * @param message - The signed message (text or bytes)
+ * @param signature - Raw 64-byte signature
+ * @param address - Base58 wallet address (the ed25519 public key)
+ * @returns Whether the signature is valid
+ */
+export async function verifyWalletSignature(
+  message: string | Uint8Array,
+  signature: Uint8Array,
+  address: string
+): Promise<boolean> {
+  const publicKey = decodeBase58(address);
+  if (publicKey.length !== 32 || signature.length !== 64) {
+    return false;
+  }
+
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('WebCrypto not available');
+  }
+
+  const data = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const key = await subtle.importKey('raw', publicKey as BufferSource, 'Ed25519', false, [
+    'verify',
+  ]);
+  return subtle.verify('Ed25519', key, signature as BufferSource, data as BufferSource);
+}
+
+/**
+ * Verify a signed sign-in message
+ *
+ * Checks the message format, the expected domain/address/nonce, the
+ * expiration window, and finally the ed25519 signature.
+ *
+ * @param message - The exact message text that was signed
+ * @param signature - Raw 64-byte signature
+ * @param options - Values the message must match
+ * @returns The parsed message fields
+ * @throws PipeValidationError if any check fails
+ */
+export async function verifySignInMessage(
+  message: string,
+  signature: Uint8Array,
+  options: VerifySignInOptions = {}
+): Promise<SignInMessageFields> {
+  const fields = parseSignInMessage(message);
+  if (!fields) {
+    throw new PipeValidationError('Not a valid sign-in message');
+  }
+
+  if (options.domain && fields.domain !== options.domain) {
+    throw new PipeValidationError(`Sign-in message is for ${fields.domain}, not ${options.domain}`);
+  }
+  if (options.address && fields.address !== options.address) {
+    throw new PipeValidationError('Sign-in message is for a different wallet');
+  }
+  if (options.nonce && fields.nonce !== options.nonce) {
+    throw new PipeValidationError('Sign-in message nonce does not match');
+  }
+
+  const now = (options.now || new Date()).getTime();
+  if (fields.expirationTime && now >= Date.parse(fields.expirationTime)) {
+    throw new PipeValidationError('Sign-in message has expired');
+  }
+  if (fields.notBefore && now < Date.parse(fields.notBefore)) {
+    throw new PipeValidationError('Sign-in message is not valid yet');
+  }
+
+  if (!(await verifyWalletSignature(message, signature, fields.address))) {
+    throw new PipeValidationError('Invalid signature for wallet address');
+  }
+
+  return fields;
+}
@@ -0,0 +1,265 @@
+/**
+ * Storage adapters for PipeAccountStorage and PipeFileStorage
+ *
+ * localStorage is used by default. These adapters cover runtimes without it:
+ * tests and short-lived processes (memory), Node services (a JSON file) and
+ * browsers or workers that prefer IndexedDB.
+ */
+
+import type { StorageAdapter } from '../types.js';
+
+/**
+ * Resolve the adapter to use, defaulting to localStorage
+ *
+ * @throws Error if no adapter is given and localStorage is not available
+ */
+export function resolveStorageAdapter(adapter?: StorageAdapter): StorageAdapter {
+  if (adapter) return adapter;
+  if (typeof window === 'undefined' || !window.localStorage) {
+    throw new Error('localStorage not available');
+  }
+  return window.localStorage;
+}
+
+/**
+ * Keeps everything in memory - nothing survives a restart
+ *
+ * @example
+ * ```ts
+ * const storage = new PipeAccountStorage(undefined, { adapter: new MemoryStorageAdapter() });
+ * ```
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Stores all keys in a single JSON file (Node only)
+ *
+ * Every write replaces the file atomically (write to a temp file, then
+ * rename), so a crash never leaves a half-written file behind.
+ *
+ * @example
+ * ```ts
+ * const adapter = await NodeFileStorageAdapter.open('./data/pipe-storage.json');
+ * const storage = new PipeAccountStorage(undefined, { adapter });
+ * ```
+ */
+export class NodeFileStorageAdapter implements StorageAdapter {
+  private fs: typeof import('fs');
+  private filePath: string;
+  private items: Record<string, string>;
+
+  private constructor(fs: typeof import('fs'), filePath: string, items: Record<string, string>) {
+    this.fs = fs;
+    this.filePath = filePath;
+    this.items = items;
+  }
+
+  /**
+   * Load (or create) the storage file
+   *
+   * @param filePath - Path of the JSON file; missing directories are created
+   */
+  static async open(filePath: string): Promise<NodeFileStorageAdapter> {
+    const fs = await import('fs');
+    const path = await import('path');
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    let items: Record<string, string> = {};
+    try {
+      items = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    return new NodeFileStorageAdapter(fs, filePath, items);
+  }
+
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this.items, key) ? this.items[key] : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items[key] = value;
+    this.persist();
+  }
+
+  removeItem(key: string): void {
+    delete this.items[key];
+    this.persist();
+  }
+
+  private persist(): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    this.fs.writeFileSync(tempPath, JSON.stringify(this.items));
+    this.fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Open a database, adding the object store if it doesn't exist yet
+ *
+ * Stores can only be created during a version upgrade, so a database that
+ * lacks the store is reopened with the next version. Several adapters may
+ * share one database with different stores.
+ */
+async function openDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+  for (let attempt = 0; ; attempt++) {
+    const db = await idbRequest(indexedDB.open(dbName));
+    if (db.objectStoreNames.contains(storeName)) {
+      return db;
+    }
+
+    const version = db.version + 1;
+    db.close();
+    const request = indexedDB.open(dbName, version);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    try {
+      return await idbRequest(request);
+    } catch (error: any) {
+      // Another tab upgraded the database first - start over from its version
+      if (error?.name !== 'VersionError' || attempt >= 2) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores keys in an IndexedDB object store (browsers and web workers)
+ *
+ * All entries are read once by `open()`; writes update memory immediately
+ * and are written to IndexedDB in the background. Await `flush()` when a
+ * write must be durable (e.g. before closing a worker). Adapters with
+ * different store names can share a database; the store is added on open.
+ *
+ * @example
+ * ```ts
+ * const adapter = await IndexedDBStorageAdapter.open();
+ * const fileStorage = PipeFileStorage.forAccount(account, 1000, adapter);
+ * ```
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private db: IDBDatabase | null;
+  private dbName: string;
+  private storeName: string;
+  private items: Map<string, string>;
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor(
+    db: IDBDatabase,
+    dbName: string,
+    storeName: string,
+    items: Map<string, string>
+  ) {
+    this.db = null;
+    this.dbName = dbName;
+    this.storeName = storeName;
+    this.items = items;
+    this.attach(db);
+  }
+
+  /**
+   * Open the database and load its entries
+   *
+   * @param dbName - Database name (default: 'firestarter')
+   * @param storeName - Object store name (default: 'storage')
+   */
+  static async open(
+    dbName: string = 'firestarter',
+    storeName: string = 'storage'
+  ): Promise<IndexedDBStorageAdapter> {
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB not available');
+    }
+
+    const db = await openDatabase(dbName, storeName);
+
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const [keys, values] = await Promise.all([
+      idbRequest(store.getAllKeys()),
+      idbRequest(store.getAll()),
+    ]);
+
+    const items = new Map<string, string>();
+    keys.forEach((key, index) => items.set(String(key), values[index]));
+
+    return new IndexedDBStorageAdapter(db, dbName, storeName, items);
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+    this.write((store) => store.put(value, key));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+    this.write((store) => store.delete(key));
+  }
+
+  /**
+   * Wait until all writes so far have reached IndexedDB
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Use a connection, giving it up when another adapter needs to add a store
+   */
+  private attach(db: IDBDatabase): void {
+    this.db = db;
+    db.onversionchange = () => {
+      db.close();
+      if (this.db === db) this.db = null;
+    };
+  }
+
+  private write(operation: (store: IDBObjectStore) => IDBRequest): void {
+    this.pending = this.pending.then(async () => {
+      try {
+        if (!this.db) {
+          this.attach(await openDatabase(this.dbName, this.storeName));
+        }
+        const store = this.db!.transaction(this.storeName, 'readwrite').objectStore(this.storeName);
+        await idbRequest(operation(store));
+      } catch (error) {
+        console.error('Failed to write to IndexedDB:', error);
+      }
+    });
+  }
+}
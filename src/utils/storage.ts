@@ -2,14 +2,44 @@
  * Simple localStorage wrapper for Pipe accounts
  *
  * This is OPTIONAL - developers can manage storage however they want.
- * Provides a convenient way to save/load accounts from localStorage.
+ * Provides a convenient way to save/load accounts from localStorage, or from
+ * any other StorageAdapter (memory, Node filesystem, IndexedDB).
  */
 
-import type { PipeAccount, FileRecord } from '../types';
+import type { PipeAccount, FileRecord, StorageAdapter } from '../types';
+import { resolveStorageAdapter } from './storage-adapters.js';
 
 const STORAGE_KEY = 'firestarter_pipe_account';
 const FILES_STORAGE_KEY = 'firestarter_file_records';
 
+/**
+ * Options for PipeAccountStorage
+ */
+export interface AccountStorageOptions {
+  /**
+   * Persist only the tokens, never the password. Loaded accounts can't
+   * re-login on their own once the refresh token stops working.
+   */
+  tokensOnly?: boolean;
+  /** Where to store the account (default: window.localStorage) */
+  adapter?: StorageAdapter;
+}
+
+/**
+ * The copy of an account that gets written to storage
+ */
+export function toStoredAccount(account: PipeAccount, tokensOnly?: boolean): PipeAccount {
+  return tokensOnly ? { ...account, password: '' } : account;
+}
+
+/**
+ * Check the fields every stored account needs
+ */
+export function isValidStoredAccount(account: PipeAccount, tokensOnly?: boolean): boolean {
+  if (!account.username || !account.userId) return false;
+  return tokensOnly ? !!(account.accessToken || account.refreshToken) : !!account.password;
+}
+
 /**
  * Simple wrapper for storing Pipe account credentials in localStorage
  *
@@ -31,33 +61,38 @@ const FILES_STORAGE_KEY = 'firestarter_file_records';
  * // Clear on logout
  * storage.clear();
  * ```
+ *
+ * The account is stored as plain JSON. Use `{ tokensOnly: true }` to keep the
+ * password out of storage, or EncryptedAccountStorage to encrypt it at rest.
  */
 export class PipeAccountStorage {
-  private storage: Storage;
+  private storage: StorageAdapter;
   private storageKey: string;
+  private tokensOnly: boolean;
 
-  constructor(storageKey: string = STORAGE_KEY) {
-    if (typeof window === 'undefined' || !window.localStorage) {
-      throw new Error('localStorage not available');
-    }
-    this.storage = window.localStorage;
+  constructor(storageKey: string = STORAGE_KEY, options: AccountStorageOptions = {}) {
+    this.storage = resolveStorageAdapter(options.adapter);
     this.storageKey = storageKey;
+    this.tokensOnly = !!options.tokensOnly;
   }
 
   /**
-   * Save account to localStorage
+   * Save account to storage
    */
   save(account: PipeAccount): void {
     try {
-      this.storage.setItem(this.storageKey, JSON.stringify(account));
+      this.storage.setItem(
+        this.storageKey,
+        JSON.stringify(toStoredAccount(account, this.tokensOnly))
+      );
     } catch (error) {
-      console.error('Failed to save account to localStorage:', error);
+      console.error('Failed to save account to storage:', error);
       throw error;
     }
   }
 
   /**
-   * Load account from localStorage
+   * Load account from storage
    * Returns null if no account is saved
    */
   load(): PipeAccount | null {
@@ -68,27 +103,27 @@ export class PipeAccountStorage {
       const account = JSON.parse(data) as PipeAccount;
 
       // Validate required fields
-      if (!account.username || !account.password || !account.userId) {
-        console.warn('Invalid account data in localStorage, clearing');
+      if (!isValidStoredAccount(account, this.tokensOnly)) {
+        console.warn('Invalid account data in storage, clearing');
         this.clear();
         return null;
       }
 
       return account;
     } catch (error) {
-      console.error('Failed to load account from localStorage:', error);
+      console.error('Failed to load account from storage:', error);
       return null;
     }
   }
 
   /**
-   * Clear saved account from localStorage
+   * Clear saved account from storage
    */
   clear(): void {
     try {
       this.storage.removeItem(this.storageKey);
     } catch (error) {
-      console.error('Failed to clear account from localStorage:', error);
+      console.error('Failed to clear account from storage:', error);
     }
   }
 
@@ -128,15 +163,21 @@ export class PipeAccountStorage {
  * ```
  */
 export class PipeFileStorage {
-  private storage: Storage;
+  private storage: StorageAdapter;
   private storageKey: string;
   private maxFiles: number;
 
-  constructor(storageKey: string = FILES_STORAGE_KEY, maxFiles: number = 1000) {
-    if (typeof window === 'undefined' || !window.localStorage) {
-      throw new Error('localStorage not available');
-    }
-    this.storage = window.localStorage;
+  /**
+   * @param storageKey - Key the records are stored under
+   * @param maxFiles - Maximum number of files to track (default 1000)
+   * @param adapter - Where to store the records (default: window.localStorage)
+   */
+  constructor(
+    storageKey: string = FILES_STORAGE_KEY,
+    maxFiles: number = 1000,
+    adapter?: StorageAdapter
+  ) {
+    this.storage = resolveStorageAdapter(adapter);
     this.storageKey = storageKey;
     this.maxFiles = maxFiles;
   }
@@ -147,6 +188,7 @@ export class PipeFileStorage {
    *
    * @param account - The account to scope storage to
    * @param maxFiles - Maximum number of files to track (default 1000)
+   * @param adapter - Where to store the records (default: window.localStorage)
    * @returns PipeFileStorage instance scoped to the account
    *
    * @example
@@ -161,9 +203,13 @@ export class PipeFileStorage {
    * const files = fileStorage.listFiles();
    * ```
    */
-  static forAccount(account: PipeAccount, maxFiles: number = 1000): PipeFileStorage {
+  static forAccount(
+    account: PipeAccount,
+    maxFiles: number = 1000,
+    adapter?: StorageAdapter
+  ): PipeFileStorage {
     const storageKey = `firestarter_files_${account.username}`;
-    return new PipeFileStorage(storageKey, maxFiles);
+    return new PipeFileStorage(storageKey, maxFiles, adapter);
   }
 
   /**
@@ -190,7 +236,7 @@ export class PipeFileStorage {
 
       this.storage.setItem(this.storageKey, JSON.stringify(files));
     } catch (error) {
-      console.error('Failed to add file record to localStorage:', error);
+      console.error('Failed to add file record to storage:', error);
     }
   }
 
@@ -210,7 +256,7 @@ export class PipeFileStorage {
         uploadedAt: new Date(f.uploadedAt),
       }));
     } catch (error) {
-      console.error('Failed to list files from localStorage:', error);
+      console.error('Failed to list files from storage:', error);
       return [];
     }
   }
@@ -232,7 +278,7 @@ export class PipeFileStorage {
       const filtered = files.filter((f) => f.fileId !== fileId);
       this.storage.setItem(this.storageKey, JSON.stringify(filtered));
     } catch (error) {
-      console.error('Failed to remove file record from localStorage:', error);
+      console.error('Failed to remove file record from storage:', error);
     }
   }
 
@@ -243,7 +289,7 @@ export class PipeFileStorage {
     try {
       this.storage.removeItem(this.storageKey);
     } catch (error) {
-      console.error('Failed to clear file records from localStorage:', error);
+      console.error('Failed to clear file records from storage:', error);
     }
   }
 
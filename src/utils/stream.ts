@@ -0,0 +1,149 @@
+/**
+ * Streaming helpers
+ *
+ * Normalizes the different stream flavours (Node Readable, web ReadableStream,
+ * async iterables) into a single async iterable of Uint8Array chunks, and
+ * computes size + blake3 hash incrementally as the bytes flow through.
+ */
+
+import { blake3 } from '@noble/hashes/blake3';
+import type { StreamSource, DownloadStream } from '../types.js';
+
+/**
+ * Running totals for a stream that is being consumed
+ */
+export interface StreamDigest {
+  size: number;
+  blake3Hash: string;
+}
+
+/**
+ * Check whether a value is a web ReadableStream
+ */
+function isReadableStream(source: unknown): source is ReadableStream<Uint8Array> {
+  return (
+    typeof source === 'object' &&
+    source !== null &&
+    typeof (source as ReadableStream).getReader === 'function'
+  );
+}
+
+/**
+ * Convert a chunk emitted by a stream into a Uint8Array
+ */
+function toBytes(chunk: unknown): Uint8Array {
+  if (chunk instanceof Uint8Array) return chunk;
+  if (typeof chunk === 'string') return new TextEncoder().encode(chunk);
+  if (chunk instanceof ArrayBuffer) return new Uint8Array(chunk);
+  if (ArrayBuffer.isView(chunk)) {
+    return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  }
+  throw new TypeError(`Unsupported stream chunk type: ${typeof chunk}`);
+}
+
+/**
+ * Iterate any supported stream source as Uint8Array chunks
+ */
+export async function* iterateChunks(source: StreamSource): AsyncGenerator<Uint8Array> {
+  if (isReadableStream(source)) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield toBytes(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  for await (const chunk of source as AsyncIterable<unknown>) {
+    yield toBytes(chunk);
+  }
+}
+
+/**
+ * Join chunks into a single Uint8Array
+ */
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Wrap a chunk iterable so that size and blake3 hash are computed as it is consumed
+ *
+ * The returned `digest()` is only meaningful once the iterable has been fully read.
+ *
+ * @param chunks - Source chunks
+ * @param onChunk - Optional callback with the running byte count
+ */
+export function digestChunks(
+  chunks: AsyncIterable<Uint8Array>,
+  onChunk?: (bytesRead: number) => void
+): { chunks: AsyncGenerator<Uint8Array>; digest: () => StreamDigest } {
+  const hasher = blake3.create({ dkLen: 32 });
+  let size = 0;
+  let blake3Hash = '';
+
+  async function* tap(): AsyncGenerator<Uint8Array> {
+    for await (const chunk of chunks) {
+      hasher.update(chunk);
+      size += chunk.length;
+      onChunk?.(size);
+      yield chunk;
+    }
+    blake3Hash = Array.from(hasher.digest(), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('');
+  }
+
+  return {
+    chunks: tap(),
+    digest: () => ({ size, blake3Hash }),
+  };
+}
+
+/**
+ * Expose an async iterable as a web ReadableStream
+ */
+export function toReadableStream(chunks: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Expose an async iterable as a ReadableStream that is also async iterable
+ *
+ * Not every runtime implements `ReadableStream[Symbol.asyncIterator]`, so it
+ * is added when missing.
+ */
+export function toDownloadStream(chunks: AsyncIterable<Uint8Array>): DownloadStream {
+  const stream = toReadableStream(chunks) as DownloadStream;
+  if (typeof stream[Symbol.asyncIterator] !== 'function') {
+    Object.defineProperty(stream, Symbol.asyncIterator, {
+      value: () => iterateChunks(stream),
+      configurable: true,
+    });
+  }
+  return stream;
+}
@@ -0,0 +1,140 @@
+/**
+ * Usage reports
+ *
+ * Pipe Network reports PIPE spending per period (getUsage) but has no file
+ * listing, so per-period upload activity comes from the locally tracked
+ * PipeFileStorage records. buildUsageReport combines the two.
+ */
+
+import type { FileRecord, TokenUsage } from '../types';
+import { PipeValidationError } from '../errors.js';
+
+/**
+ * Length of one report period
+ */
+export type UsageInterval = 'day' | 'week' | 'month';
+
+/**
+ * Options for buildUsageReport
+ */
+export interface UsageReportOptions {
+  /** Period length (default: 'day'); periods are aligned in UTC, weeks start on Monday */
+  interval?: UsageInterval;
+}
+
+/**
+ * Upload activity in one period
+ */
+export interface UsageReportPeriod {
+  start: Date;
+  /** Exclusive */
+  end: Date;
+  /** Files uploaded in the period (from local records) */
+  files: number;
+  bytesUploaded: number;
+  /**
+   * Share of the storage PIPE attributed to this period by bytes uploaded.
+   * An estimate: the API only reports totals.
+   */
+  estimatedStoragePipe: number;
+}
+
+/**
+ * Usage totals plus a per-period breakdown
+ */
+export interface UsageReport {
+  from: Date;
+  to: Date;
+  interval: UsageInterval;
+  /** Totals as reported by the API */
+  usage: TokenUsage;
+  periods: UsageReportPeriod[];
+  /** Totals of the local records in the report range */
+  files: number;
+  bytesUploaded: number;
+}
+
+/**
+ * Break usage down into periods using locally tracked uploads
+ *
+ * The range is taken from the usage (the period it was requested for), or
+ * from the records' upload dates if the usage has none. Records outside the
+ * range are ignored.
+ *
+ * @param usage - Result of PipeClient.getUsage
+ * @param files - Records from PipeFileStorage.listFiles()
+ * @param options - Period length
+ * @returns The report, oldest period first
+ *
+ * @example
+ * ```ts
+ * const fileStorage = PipeFileStorage.forAccount(account);
+ * const usage = await client.getUsage(account, { from: monthStart, to: new Date() });
+ * const report = buildUsageReport(usage, fileStorage.listFiles(), { interval: 'week' });
+ *
+ * for (const period of report.periods) {
+ *   console.log(period.start.toISOString(), period.files, period.estimatedStoragePipe);
+ * }
+ * ```
+ */
+export function buildUsageReport(
+  usage: TokenUsage,
+  files: FileRecord[],
+  options: UsageReportOptions = {}
+): UsageReport {
+  const interval = options.interval || 'day';
+  const times = files.map((file) => new Date(file.uploadedAt).getTime());
+  const from = usage.from || new Date(times.length ? Math.min(...times) : Date.now());
+  const to = usage.to || new Date(times.length ? Math.max(...times) : Date.now());
+  if (from > to) {
+    throw new PipeValidationError('Usage period must start before it ends');
+  }
+
+  const periods: UsageReportPeriod[] = [];
+  for (let start = periodStart(from, interval); start <= to; ) {
+    const end = nextPeriod(start, interval);
+    periods.push({ start, end, files: 0, bytesUploaded: 0, estimatedStoragePipe: 0 });
+    start = end;
+  }
+
+  let totalFiles = 0;
+  let totalBytes = 0;
+  files.forEach((file, i) => {
+    if (times[i] < from.getTime() || times[i] > to.getTime()) return;
+    const period = periods.find((p) => times[i] >= p.start.getTime() && times[i] < p.end.getTime());
+    if (!period) return;
+    period.files++;
+    period.bytesUploaded += file.size;
+    totalFiles++;
+    totalBytes += file.size;
+  });
+
+  for (const period of periods) {
+    period.estimatedStoragePipe =
+      totalBytes > 0 ? (usage.storagePipe * period.bytesUploaded) / totalBytes : 0;
+  }
+
+  return { from, to, interval, usage, periods, files: totalFiles, bytesUploaded: totalBytes };
+}
+
+/**
+ * Start of the UTC period containing `date`
+ */
+function periodStart(date: Date, interval: UsageInterval): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (interval === 'week') {
+    // getUTCDay: 0 = Sunday
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (interval === 'month') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+function nextPeriod(start: Date, interval: UsageInterval): Date {
+  const next = new Date(start);
+  if (interval === 'day') next.setUTCDate(next.getUTCDate() + 1);
+  else if (interval === 'week') next.setUTCDate(next.getUTCDate() + 7);
+  else next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+}